@@ -1,17 +1,73 @@
-import React, { useState, Suspense, useRef, useEffect } from 'react';
+import React, { useState, Suspense, useRef, useEffect, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Stars } from '@react-three/drei';
 import * as THREE from 'three';
 import VisionController from './components/VisionController';
 import HeartParticles from './components/HeartParticles';
 import PhotoGallery from './components/PhotoGallery';
-import { GestureState } from './types';
+import PhotoViewerOverlay from './components/PhotoViewerOverlay';
+import PhotoManager from './components/PhotoManager';
+import CalibrationPanel from './components/CalibrationPanel';
+import PointerController from './components/PointerController';
+import ReplayController from './components/ReplayController';
+import CameraRig from './components/CameraRig';
+import ShapePicker from './components/ShapePicker';
+import ThemePanel from './components/ThemePanel';
+import SceneEffects from './components/SceneEffects';
+import SceneCapture, { SceneCaptureApi } from './components/SceneCapture';
+import CaptureControls from './components/CaptureControls';
+import SlideshowController from './components/SlideshowController';
+import SlideshowPanel from './components/SlideshowPanel';
+import RemotePeers from './components/RemotePeers';
+import SessionControls from './components/SessionControls';
+import RemoteControlOptions from './components/RemoteControlOptions';
+import { AnalogParams, AudioLevels, AudioSource, CalibrationProfile, DynamicGesture, EffectsQuality, FocusRequest, GestureFrame, GestureState, HandLandmark, Handedness, InputMode, LandmarkRecording, ParticleInteraction, PhotoLayout, PhotoRecord, RemoteControlCommand, RemoteControlSettings, RemoteControlSource, SceneConfig, SceneTuning, SessionPeer, ShapeSelection, SharedShape, SlideshowSettings, StoredPhoto, Theme } from './types';
+import { DEFAULT_THRESHOLDS, createThresholdClassifier } from './utils/gestureClassifier';
+import { clearCalibrationProfile, loadCalibrationProfile, saveCalibrationProfile } from './utils/calibration';
+import { createLandmarkRecorder, parseLandmarkRecording } from './utils/landmarkRecording';
+import { downloadBlob, downloadJson } from './utils/download';
+import { createRecordingPlayer } from './utils/replayHarness';
+import { createTwoHandSceneState } from './utils/twoHandGestures';
+import { StorageUsage, clearPhotos, createObjectUrlCache, deletePhotos, formatBytes, getAllPhotos, getStorageUsage, migrateLegacyPhotos, putPhotos } from './utils/photoStore';
+import { encodeImageData, rasterizeImageFile } from './utils/imageProcessing';
+import { isVideoFile, pairLivePhotos, processMediaFile } from './utils/videoProcessing';
+import { DEFAULT_SHAPE } from './utils/shapes';
+import { THEME_PRESETS, getThemeCssVariables, loadTheme, saveTheme } from './utils/theme';
+import { DEFAULT_PARTICLE_COUNT, PARTICLE_COUNTS } from './utils/particleSimulation';
+import { EFFECTS_QUALITY_LEVELS, loadEffectsQuality, saveEffectsQuality } from './utils/effects';
+import { loadSlideshowSettings, saveSlideshowSettings } from './utils/slideshow';
+import { PHOTO_LAYOUTS, loadPhotoLayout, savePhotoLayout } from './utils/photoLayout';
+import { createAudioAnalyzer } from './utils/audioAnalysis';
+import { GESTURE_SOUNDS, createSoundEffects } from './utils/soundEffects';
+import { RemotePhoto, SessionClient, SessionStatus, createSessionClient } from './utils/session';
+import { BridgeStatus, RemoteControl, createRemoteControl, loadRemoteControlSettings, saveRemoteControlSettings } from './utils/remoteControl';
+import { BundledPhoto, MAX_SHAPE_SCALE, SCENE_CONFIG_VERSION, createSceneBundle, decodeSceneConfigHash, encodeSceneConfigHash, loadSceneTuning, parseSceneConfig, readSceneBundle, saveSceneTuning } from './utils/sceneConfig';
+
+// Frame rate of offline replay renders
+const RENDER_FPS = 30;
 
 function App() {
   const [gestureState, setGestureState] = useState<GestureState>(GestureState.DISPERSED);
   const [debugText, setDebugText] = useState("Open Hand");
-  const [images, setImages] = useState<string[]>([]);
+  const [photos, setPhotos] = useState<StoredPhoto[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [showPhotoManager, setShowPhotoManager] = useState(false);
+  const [photoLayout, setPhotoLayout] = useState<PhotoLayout>(() => loadPhotoLayout());
+  const [shape, setShape] = useState<ShapeSelection>(DEFAULT_SHAPE);
+  const [particleCount, setParticleCount] = useState(DEFAULT_PARTICLE_COUNT);
+  const [particleInteraction, setParticleInteraction] = useState<ParticleInteraction>('follow');
+  const [theme, setTheme] = useState<Theme>(() => loadTheme());
+  const [showThemePanel, setShowThemePanel] = useState(false);
+  const [effectsQuality, setEffectsQuality] = useState<EffectsQuality>(() => loadEffectsQuality());
+  const [tuning, setTuning] = useState<SceneTuning>(() => loadSceneTuning());
+  const [sceneMessage, setSceneMessage] = useState<string | null>(null);
+  const photoUrls = useMemo(() => createObjectUrlCache(), []);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const sceneInputRef = useRef<HTMLInputElement>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
   
   // Logic to track how many times the user has formed the heart
   const [cycleCount, setCycleCount] = useState(0);
@@ -19,29 +75,147 @@ function App() {
   
   // Store hand position in a ref to avoid re-renders on every frame
   const handPosRef = useRef<THREE.Vector3>(new THREE.Vector3(0, 0, 0));
+  // Both-hands scale / twist / half-heart positions, also read every frame
+  const twoHandRef = useRef(createTwoHandSceneState());
+  // Roll / depth / pinch of the primary hand (null without hand tracking)
+  const analogRef = useRef<AnalogParams | null>(null);
+  const handSeenAtRef = useRef(-Infinity); // performance.now() of the last hand / pointer position
+
+  // Per-user gesture thresholds (restored from previous sessions)
+  const [calibration, setCalibration] = useState<CalibrationProfile | null>(() => loadCalibrationProfile());
+  const [showCalibration, setShowCalibration] = useState(false);
+  const latestHandRef = useRef<HandLandmark[] | null>(null);
+
+  // Camera tracking, or mouse / touch / keyboard when no camera is available
+  const [inputMode, setInputMode] = useState<InputMode>('camera');
+  const [inputNotice, setInputNotice] = useState<string | null>(null);
+  const [particleError, setParticleError] = useState<string | null>(null); // GPU can't simulate the particles
+  const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null); // Photo in the focused viewer
+  // Set when a swipe up / wave closed the focused photo while the hand is still pinching
+  const focusDismissedRef = useRef(false);
+
+  // Landmark recording (camera) and replay (recorded file as input)
+  const recorder = useMemo(() => createLandmarkRecorder(), []);
+  const [isRecording, setIsRecording] = useState(false);
+  const [replayRecording, setReplayRecording] = useState<LandmarkRecording | null>(null);
+
+  // Scene capture: snapshots, live video and offline renders of a replayed recording
+  const sceneCaptureRef = useRef<SceneCaptureApi | null>(null);
+  const webcamRef = useRef<HTMLVideoElement | null>(null);
+  const [capturing, setCapturing] = useState(false); // Canvas pinned to dpr 1 while set
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
+  const renderAbortRef = useRef<AbortController | null>(null);
+
+  // Unattended presentation loop; camera / pointer / replay input takes over while it's active
+  const [slideshowEnabled, setSlideshowEnabled] = useState(false);
+  const [slideshowSettings, setSlideshowSettings] = useState<SlideshowSettings>(() => loadSlideshowSettings());
+  const [showSlideshowPanel, setShowSlideshowPanel] = useState(false);
+  const liveInputAtRef = useRef(-Infinity); // performance.now() of the last input from a controller
+  const liveGestureRef = useRef<GestureState>(GestureState.DISPERSED); // Last gesture a controller reported
+
+  // Music / microphone analysis for the render loop, and synthesized gesture sounds
+  const audio = useMemo(() => createAudioAnalyzer(), []);
+  const soundEffects = useMemo(() => createSoundEffects(audio.getContext), [audio]);
+  const audioRef = useRef<AudioLevels | null>(null); // Set while a source is playing
+  const [audioSource, setAudioSource] = useState<AudioSource>('off');
+  const [audioNotice, setAudioNotice] = useState<string | null>(null);
+  const [soundEffectsEnabled, setSoundEffectsEnabled] = useState(false);
+  const audioInputRef = useRef<HTMLInputElement>(null);
+  const soundGestureRef = useRef<GestureState>(GestureState.DISPERSED);
+
+  // Shared session over a relay: the others' hands, particles and photos join this scene
+  const sessionRef = useRef<SessionClient | null>(null);
+  const [sessionStatus, setSessionStatus] = useState<SessionStatus | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [sessionColor, setSessionColor] = useState<string | null>(null);
+  const [peers, setPeers] = useState<SessionPeer[]>([]);
+  const [remotePhotos, setRemotePhotos] = useState<RemotePhoto[]>([]);
+  const peerHandsRef = useRef(new Map<string, THREE.Vector3>()); // World positions, read every frame
+  const remoteShapeRef = useRef<ShapeSelection | null>(null); // Last shape received, so it isn't sent back
+  const sharedPhotoIdsRef = useRef(new Set<string>());
+
+  // External show controllers: control.html, scripts and OSC (through server/control-bridge.mjs)
+  const remoteControlRef = useRef<RemoteControl | null>(null);
+  const [remoteControlSettings, setRemoteControlSettings] = useState<RemoteControlSettings>(() => loadRemoteControlSettings());
+  const [bridgeStatus, setBridgeStatus] = useState<BridgeStatus | null>(null);
+  const [bridgeError, setBridgeError] = useState<string | null>(null);
 
-  // 1. Load Photos from LocalStorage on mount
+  const classifier = useMemo(
+    () => createThresholdClassifier(calibration ? calibration.thresholds : DEFAULT_THRESHOLDS),
+    [calibration]
+  );
+
+  const refreshStorageUsage = () => {
+    getStorageUsage()
+      .then(setStorageUsage)
+      .catch(e => console.warn("Storage estimate unavailable", e));
+  };
+
+  // 1. Load Photos from IndexedDB on mount (migrating old localStorage data first)
   useEffect(() => {
-    try {
-      const saved = localStorage.getItem('heart_cloud_photos');
-      if (saved) {
-        setImages(JSON.parse(saved));
-      }
-    } catch (e) {
-      console.error("Failed to load images from storage", e);
-    }
+    migrateLegacyPhotos()
+      .then(({ failed }) => {
+        if (failed > 0) setStorageError(`${failed} saved photo(s) could not be migrated and were dropped`);
+      })
+      .catch(e => {
+        console.error("Failed to migrate photos from localStorage", e);
+        setStorageError(`Could not migrate saved photos: ${e.message}`);
+      })
+      .then(() => getAllPhotos())
+      .then(setPhotos)
+      .catch(e => {
+        console.error("Failed to load photos from storage", e);
+        setStorageError(`Could not load saved photos: ${e.message}`);
+      })
+      .finally(refreshStorageUsage);
   }, []);
 
-  // 2. Save Photos to LocalStorage whenever they change
+  // Persist the theme between sessions
   useEffect(() => {
-    if (images.length > 0) {
-      try {
-        localStorage.setItem('heart_cloud_photos', JSON.stringify(images));
-      } catch (e) {
-        console.warn("LocalStorage quota exceeded or error", e);
-      }
-    }
-  }, [images]);
+    saveTheme(theme);
+  }, [theme]);
+
+  useEffect(() => {
+    saveEffectsQuality(effectsQuality);
+  }, [effectsQuality]);
+
+  useEffect(() => {
+    saveSlideshowSettings(slideshowSettings);
+  }, [slideshowSettings]);
+
+  useEffect(() => {
+    saveSceneTuning(tuning);
+  }, [tuning]);
+
+  useEffect(() => {
+    savePhotoLayout(photoLayout);
+  }, [photoLayout]);
+
+  // 2. Photo records for the scene & UI (object URLs are revoked when a photo is removed)
+  const photoRecords = useMemo<PhotoRecord[]>(() => {
+    photoUrls.prune(new Set(photos.flatMap(p => [p.id, `${p.id}:original`, `${p.id}:thumb`])));
+    return photos.map(p => ({
+      id: p.id,
+      kind: p.kind,
+      url: photoUrls.get(p.id, p.texture),
+      originalUrl: photoUrls.get(`${p.id}:original`, p.original),
+      thumbnailUrl: photoUrls.get(`${p.id}:thumb`, p.thumbnail),
+      caption: p.caption,
+      favourite: p.favourite,
+      width: p.width,
+      height: p.height,
+      takenAt: p.takenAt,
+      album: p.album,
+    }));
+  }, [photos]);
+
+  // Photos of session peers join once they've formed the shape themselves
+  const galleryPhotos = useMemo<PhotoRecord[]>(() => {
+    const contributors = new Set(peers.filter(p => p.contributed).map(p => p.id));
+    const shared = remotePhotos.filter(p => contributors.has(p.peerId)).map(p => p.record);
+    return shared.length > 0 ? [...photoRecords, ...shared] : photoRecords;
+  }, [photoRecords, peers, remotePhotos]);
 
   // 3. Track Heart Formation Cycles
   useEffect(() => {
@@ -54,10 +228,62 @@ function App() {
     prevGestureRef.current = gestureState;
   }, [gestureState]);
 
-  const showPhotos = cycleCount >= 2;
+  // The slideshow focuses every photo, so it doesn't wait for the photos to be unlocked
+  const showPhotos = cycleCount >= tuning.photoUnlockCycles || slideshowEnabled;
+
+  // Gesture sound effects
+  useEffect(() => {
+    if (gestureState === soundGestureRef.current) return;
+    soundGestureRef.current = gestureState;
+    const effect = GESTURE_SOUNDS[gestureState];
+    if (soundEffectsEnabled && effect) soundEffects.play(effect);
+  }, [gestureState]);
+
+  useEffect(() => () => audio.stop(), []);
+
+  const startAudio = async (source: AudioSource, start: () => Promise<void>, label: string) => {
+      try {
+          await start();
+          audioRef.current = audio.levels;
+          setAudioSource(source);
+          setAudioNotice(label);
+      } catch (e) {
+          audio.stop();
+          audioRef.current = null;
+          setAudioSource('off');
+          setAudioNotice(`Audio unavailable: ${e instanceof Error ? e.message : e}`);
+      }
+  };
+
+  const handleAudioTrackUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (file) startAudio('track', () => audio.playTrack(file), `♫ ${file.name}`);
+  };
+
+  const handleMicrophone = () => {
+      startAudio('microphone', () => audio.listenToMicrophone(), "Listening to the microphone");
+  };
+
+  const handleStopAudio = () => {
+      audio.stop();
+      audioRef.current = null;
+      setAudioSource('off');
+      setAudioNotice(null);
+  };
 
   const handleGestureChange = (state: GestureState) => {
+    recorder.pushGesture(state);
+
+    // After a dismiss, ignore the still-held pinch until the hand lets go of it
+    if (state !== GestureState.FOCUSED) {
+      focusDismissedRef.current = false;
+    } else if (focusDismissedRef.current) {
+      return;
+    }
+
     setGestureState(state);
+    sessionRef.current?.sendGesture(state);
     
     // Update debug text for UI
     switch(state) {
@@ -68,62 +294,630 @@ function App() {
     }
   };
 
-  const handleHandMove = (x: number, y: number) => {
-      const sensitivityX = 25;
-      const sensitivityY = 15;
-      
-      const targetX = (0.5 - x) * sensitivityX * 2; 
-      const targetY = (0.5 - y) * sensitivityY * 2;
+  // Normalized (mirrored) camera coordinates -> world units
+  const toWorld = (x: number, y: number, target: THREE.Vector3) => {
+      const targetX = (0.5 - x) * tuning.handSensitivityX * 2; 
+      const targetY = (0.5 - y) * tuning.handSensitivityY * 2;
       
-      handPosRef.current.set(targetX, targetY, 0);
+      return target.set(targetX, targetY, 0);
+  };
+
+  const handleHandMove = (x: number, y: number) => {
+      toWorld(x, y, handPosRef.current);
+      handSeenAtRef.current = performance.now();
+      sessionRef.current?.sendHand(x, y);
+  };
+
+  // Input from the controllers (as opposed to the slideshow) pauses the slideshow
+  const handleLiveGestureChange = (state: GestureState, source: RemoteControlSource = inputMode) => {
+      liveInputAtRef.current = performance.now();
+      liveGestureRef.current = state;
+      handleGestureChange(state);
+      remoteControlRef.current?.publish({ type: 'gesture', state, source });
+  };
+
+  const handleLiveHandMove = (x: number, y: number) => {
+      liveInputAtRef.current = performance.now();
+      handleHandMove(x, y);
+  };
+
+  const handleToggleSlideshow = () => {
+      if (slideshowEnabled) {
+          handleGestureChange(GestureState.DISPERSED);
+      } else {
+          // Start right away instead of waiting out the click that enabled it
+          liveInputAtRef.current = -Infinity;
+      }
+      setSlideshowEnabled(!slideshowEnabled);
+  };
+
+  const handleGestureFrame = (frame: GestureFrame) => {
+      analogRef.current = frame.analog;
+
+      const twoHand = twoHandRef.current;
+      if (!frame.twoHand) {
+          twoHand.active = false;
+          return;
+      }
+
+      twoHand.active = true;
+      twoHand.holding = frame.twoHand.holding;
+      twoHand.scale = frame.twoHand.scale;
+      twoHand.rotation.set(frame.twoHand.pitch, frame.twoHand.yaw, frame.twoHand.roll);
+      toWorld(frame.twoHand.left.x, frame.twoHand.left.y, twoHand.left);
+      toWorld(frame.twoHand.right.x, frame.twoHand.right.y, twoHand.right);
+  };
+
+  // Swipe left / right = previous / next photo, swipe up or wave = close (while focused).
+  // `focused` includes the moment after the open palm of a wave already released the pinch
+  const handleDynamicGesture = (gesture: DynamicGesture, focused: boolean) => {
+      remoteControlRef.current?.publish({ type: 'dynamic-gesture', gesture });
+      if (!focused) return;
+
+      if (gesture === 'SWIPE_LEFT' || gesture === 'SWIPE_RIGHT') {
+          if (gestureState !== GestureState.FOCUSED) return;
+          const step = gesture === 'SWIPE_RIGHT' ? 1 : -1;
+          setFocusRequest(prev => ({ step, id: (prev ? prev.id : 0) + 1 }));
+          setDebugText(step > 0 ? "SWIPE: Next Photo" : "SWIPE: Previous Photo");
+      } else {
+          // Like any other gesture change (recording, session peers, remote control), then ignore the
+          // still-held pinch: handleGestureChange clears the flag, so it's set afterwards
+          if (gestureState === GestureState.FOCUSED) {
+              handleLiveGestureChange(GestureState.DISPERSED);
+              focusDismissedRef.current = true;
+          }
+          setDebugText(gesture === 'WAVE' ? "WAVE: Close Photo" : "SWIPE UP: Close Photo");
+      }
+  };
+
+  const handleLandmarks = (hands: HandLandmark[][], timestamp: number, handedness?: Handedness[]) => {
+      latestHandRef.current = hands.length > 0 ? hands[0] : null;
+      recorder.pushFrame(hands, timestamp, handedness);
+  };
+
+  const handleToggleRecording = () => {
+      if (recorder.isRecording()) {
+          const recording = recorder.stop();
+          setIsRecording(false);
+          downloadJson(recording, `landmarks-${recording.createdAt}.json`);
+      } else {
+          recorder.start(gestureState);
+          setIsRecording(true);
+      }
+  };
+
+  const handleReplayUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+
+      file.text()
+        .then(text => {
+            setReplayRecording(parseLandmarkRecording(text));
+            setInputNotice(null);
+            setInputMode('replay');
+        })
+        .catch(err => setInputNotice(`Could not load recording: ${err.message}`));
+  };
+
+  // The offline render runs across many renders; it reaches the current handlers through this ref
+  const inputHandlersRef = useRef({ handleGestureChange, handleHandMove, handleGestureFrame, handleDynamicGesture });
+  inputHandlersRef.current = { handleGestureChange, handleHandMove, handleGestureFrame, handleDynamicGesture };
+
+  const handleSnapshot = async (width: number, height: number) => {
+      const api = sceneCaptureRef.current;
+      if (!api) return;
+
+      setCapturing(true);
+      try {
+          downloadBlob(await api.captureStill(width, height), `heart-cloud-${Date.now()}.png`);
+      } catch (e) {
+          console.error("Snapshot failed", e);
+          setInputNotice(`Snapshot failed: ${e instanceof Error ? e.message : e}`);
+      } finally {
+          setCapturing(false);
+      }
+  };
+
+  // Deterministic video of the loaded recording: the scene advances exactly 1 / RENDER_FPS
+  // per frame and the recording is fed up to each frame's time, however slow the encode
+  const handleRenderReplay = async (width: number, height: number) => {
+      const api = sceneCaptureRef.current;
+      const recording = replayRecording;
+      if (!api || !recording) return;
+
+      if (recorder.isRecording()) {
+          recorder.stop();
+          setIsRecording(false);
+      }
+      twoHandRef.current.active = false;
+      analogRef.current = null;
+      handleGestureChange(GestureState.DISPERSED);
+
+      const player = createRecordingPlayer(recording, classifier, {
+          onGestureChange: (state) => inputHandlersRef.current.handleGestureChange(state),
+          onHandMove: (x, y) => inputHandlersRef.current.handleHandMove(x, y),
+          onGestureFrame: (frame) => inputHandlersRef.current.handleGestureFrame(frame),
+          onDynamicGesture: (gesture, focused) => inputHandlersRef.current.handleDynamicGesture(gesture, focused),
+      });
+      const abort = new AbortController();
+      renderAbortRef.current = abort;
+      setCapturing(true);
+      setRenderProgress(0);
+      setInputNotice(null);
+
+      try {
+          const blob = await api.renderOffline({
+              width,
+              height,
+              fps: RENDER_FPS,
+              duration: player.duration,
+              onFrame: player.advanceTo,
+              onProgress: setRenderProgress,
+              signal: abort.signal,
+          });
+          downloadBlob(blob, `heart-cloud-replay-${recording.createdAt}.webm`);
+      } catch (e) {
+          if (!(e instanceof DOMException && e.name === 'AbortError')) {
+              console.error("Offline render failed", e);
+              setInputNotice(`Render failed: ${e instanceof Error ? e.message : e}`);
+          }
+      } finally {
+          renderAbortRef.current = null;
+          setCapturing(false);
+          setRenderProgress(null);
+          handleGestureChange(GestureState.DISPERSED);
+      }
+  };
+
+  const handleCalibrationComplete = (profile: CalibrationProfile) => {
+      saveCalibrationProfile(profile);
+      setCalibration(profile);
   };
 
+  const handleCalibrationReset = () => {
+      clearCalibrationProfile();
+      setCalibration(null);
+  };
+
+  const handleCameraUnavailable = (reason: string) => {
+      setInputNotice(`Camera unavailable (${reason}). Using mouse / touch controls.`);
+      setInputMode('pointer');
+  };
+
+  const handleInputModeChange = (mode: InputMode) => {
+      if (recorder.isRecording()) {
+          recorder.stop();
+          setIsRecording(false);
+      }
+      setInputNotice(null);
+      setInputMode(mode);
+      twoHandRef.current.active = false;
+      analogRef.current = null;
+      liveGestureRef.current = GestureState.DISPERSED;
+      handleGestureChange(GestureState.DISPERSED);
+  };
+
+  // Mouse / touch mode: click a photo to focus it, click empty space to release
+  const handlePhotoSelect = (index: number) => {
+      setFocusRequest(prev => ({ index, id: (prev ? prev.id : 0) + 1 }));
+      handleGestureChange(GestureState.FOCUSED);
+  };
+
+  const handlePointerMissed = () => {
+      if (inputMode === 'pointer' && gestureState === GestureState.FOCUSED) {
+          handleGestureChange(GestureState.DISPERSED);
+      }
+  };
+
+  // Uploads and scene bundles: decode, store and append after the current last photo
+  const importPhotos = (sources: (BundledPhoto & { still?: Blob })[]) => {
+      setImporting(true);
+      setStorageError(null);
+
+      return Promise.allSettled(sources.map(async source => ({
+          ...await processMediaFile(source.file, source.name, source.createdAt, source.still),
+          caption: source.caption,
+          favourite: source.favourite,
+          album: source.album,
+      })))
+        .then(async results => {
+          const imported = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+          const failed = results.length - imported.length;
+
+          if (imported.length > 0) {
+            const lastOrder = photos.length > 0 ? photos[photos.length - 1].order : 0;
+            imported.forEach((photo, i) => { photo.order = Math.max(photo.order, lastOrder + 1 + i); });
+            await putPhotos(imported);
+            setPhotos(prev => [...prev, ...imported]);
+          }
+          if (failed > 0) {
+            setStorageError(`${failed} file(s) could not be read as images or videos`);
+          }
+        })
+        .catch(e => {
+          // Typically QuotaExceededError
+          console.error("Failed to save photos", e);
+          setStorageError(`Could not save photos: ${e.name === 'QuotaExceededError' ? 'storage is full' : e.message}`);
+        })
+        .finally(() => {
+          setImporting(false);
+          refreshStorageUsage();
+        });
+  };
+
+  // Capture dates come from EXIF (see processImageFile); folder uploads use the folder name as album.
+  // Clips & GIFs become video items, Live Photos (picture + .mov) one video item each
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
-      const files = Array.from(event.target.files);
-      
-      Promise.all(files.map(file => {
-          return new Promise<string>((resolve) => {
-              const reader = new FileReader();
-              reader.onload = (e) => resolve(e.target?.result as string);
-              reader.readAsDataURL(file);
-          });
-      })).then(loadedImages => {
-          setImages(prev => [...prev, ...loadedImages]);
-      });
+      // Folders may hold other files too
+      const files = Array.from(event.target.files).filter(file =>
+        !file.webkitRelativePath || file.type.startsWith('image/') || isVideoFile(file, file.name));
+      event.target.value = '';
+      const baseTime = Date.now();
+
+      importPhotos(pairLivePhotos(files).map(({ file, still }, i) => ({
+        file,
+        still,
+        name: file.name,
+        createdAt: baseTime + i,
+        caption: '',
+        favourite: false,
+        album: file.webkitRelativePath.split('/').slice(-2, -1)[0] ?? '',
+      })));
+    }
+  };
+
+  // Scene configuration: everything but the photos (and the picture of an image shape)
+  const sceneConfig = useMemo<SceneConfig>(() => ({
+    version: SCENE_CONFIG_VERSION,
+    shape: { id: shape.id, text: shape.text, scale: shape.scale },
+    particleCount,
+    particleInteraction,
+    theme,
+    effectsQuality,
+    slideshow: slideshowSettings,
+    tuning,
+    photoLayout,
+  }), [shape, particleCount, particleInteraction, theme, effectsQuality, slideshowSettings, tuning, photoLayout]);
+
+  const applySceneConfig = (config: SceneConfig, shapeImage: ImageData | null = null) => {
+    // Without its picture the image shape falls back to the heart
+    const id = config.shape.id === 'image' && !shapeImage ? 'heart' : config.shape.id;
+    setShape({ id, text: config.shape.text, image: shapeImage, scale: config.shape.scale });
+    setParticleCount(config.particleCount);
+    setParticleInteraction(config.particleInteraction);
+    setTheme(config.theme);
+    setEffectsQuality(config.effectsQuality);
+    setSlideshowSettings(config.slideshow);
+    setTuning(config.tuning);
+    setPhotoLayout(config.photoLayout);
+  };
+
+  // Shared scene links (#scene=...) apply once on load, then leave the address bar
+  useEffect(() => {
+    try {
+      const config = decodeSceneConfigHash(window.location.hash);
+      if (!config) return;
+      applySceneConfig(config);
+      setSceneMessage("Scene loaded from link");
+    } catch (e) {
+      setSceneMessage(e instanceof Error ? e.message : String(e));
     }
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, []);
+
+  const handleExportScene = () => {
+    downloadJson(sceneConfig, `heart-cloud-scene-${Date.now()}.json`);
+  };
+
+  const handleExportBundle = async () => {
+    try {
+      setSceneMessage("Packing photos...");
+      const shapeImage = shape.id === 'image' && shape.image ? await encodeImageData(shape.image) : null;
+      downloadBlob(await createSceneBundle(sceneConfig, photos, shapeImage), `heart-cloud-scene-${Date.now()}.zip`);
+      setSceneMessage(null);
+    } catch (e) {
+      console.error("Failed to export scene bundle", e);
+      setSceneMessage(`Could not export scene: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const handleShareLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}${encodeSceneConfigHash(sceneConfig)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setSceneMessage("Link copied (settings only, no photos)");
+    } catch {
+      // No clipboard access: leave the link in the address bar to copy by hand
+      history.replaceState(null, '', url);
+      setSceneMessage("Copy the link from the address bar (settings only, no photos)");
+    }
+  };
+
+  const handleSceneUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      if (file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip') {
+        const bundle = await readSceneBundle(file);
+        const shapeImage = bundle.shapeImage ? await rasterizeImageFile(bundle.shapeImage) : null;
+        applySceneConfig(bundle.config, shapeImage);
+        setSceneMessage(`Scene loaded with ${bundle.photos.length} photo(s)`);
+        if (bundle.photos.length > 0) await importPhotos(bundle.photos);
+      } else {
+        applySceneConfig(parseSceneConfig(await file.text()));
+        setSceneMessage("Scene loaded");
+      }
+    } catch (e) {
+      console.error("Failed to import scene", e);
+      setSceneMessage(`Could not load scene: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  // --- Shared session ---
+
+  const toSharedShape = (selection: ShapeSelection): SharedShape => ({ id: selection.id, text: selection.text, scale: selection.scale });
+
+  // Shapes from the session arrive without a picture, so image shapes fall back to the heart
+  const applyRemoteShape = (remote: SharedShape) => {
+    // The relay only checks that the scale is a number
+    const scale = remote.scale > 0 ? Math.min(remote.scale, MAX_SHAPE_SCALE) : 1;
+    const selection = { id: remote.id === 'image' ? 'heart' : remote.id, text: remote.text, image: null, scale };
+    remoteShapeRef.current = selection;
+    setShape(selection);
+  };
+
+  const handleSessionWelcome = (color: string, remote: SharedShape | null) => {
+      setSessionColor(color);
+      // Late joiners take the session's shape, the first one in sets it
+      if (remote) applyRemoteShape(remote);
+      else sessionRef.current?.sendShape(toSharedShape(shape));
+      sessionRef.current?.sendGesture(gestureState);
+  };
+
+  const handlePeerHand = (peerId: string, x: number, y: number) => {
+      const hands = peerHandsRef.current;
+      if (!hands.has(peerId)) hands.set(peerId, new THREE.Vector3());
+      toWorld(x, y, hands.get(peerId));
+  };
+
+  // The session client outlives renders; it reaches the current handlers through this ref
+  const sessionHandlersRef = useRef({ handleSessionWelcome, handlePeerHand });
+  sessionHandlersRef.current = { handleSessionWelcome, handlePeerHand };
+
+  const resetSessionState = () => {
+    sessionRef.current = null;
+    setSessionColor(null);
+    setPeers([]);
+    setRemotePhotos([]);
+    peerHandsRef.current.clear();
+    remoteShapeRef.current = null;
+  };
+
+  const handleJoinSession = (relayUrl: string, sessionName: string) => {
+    sessionRef.current?.close();
+    resetSessionState();
+    setSessionError(null);
+
+    const client = createSessionClient(relayUrl, sessionName, {
+      onStatusChange: (status, error) => {
+        setSessionStatus(status);
+        if (status !== 'closed') return;
+        resetSessionState();
+        setSessionError(error ?? null);
+      },
+      onWelcome: (self, remote) => sessionHandlersRef.current.handleSessionWelcome(self.color, remote),
+      onPeersChange: (next) => {
+        const ids = new Set(next.map(p => p.id));
+        peerHandsRef.current.forEach((_, id) => { if (!ids.has(id)) peerHandsRef.current.delete(id); });
+        setPeers(next);
+      },
+      onPhotosChange: setRemotePhotos,
+      onPeerHand: (peerId, x, y) => sessionHandlersRef.current.handlePeerHand(peerId, x, y),
+      onShape: applyRemoteShape,
+    });
+    sessionRef.current = client;
+  };
+
+  const handleLeaveSession = () => {
+    sessionRef.current?.close();
+    resetSessionState();
+    setSessionStatus(null);
+    setSessionError(null);
+  };
+
+  useEffect(() => () => sessionRef.current?.close(), []);
+
+  // Our shape changes go to the session (but not the ones that came from it)
+  useEffect(() => {
+    if (sessionStatus !== 'connected' || shape === remoteShapeRef.current) return;
+    sessionRef.current?.sendShape(toSharedShape(shape));
+  }, [shape]);
+
+  // Keep the session's copy of our photos in step with the library
+  useEffect(() => {
+    const client = sessionRef.current;
+    const shared = sharedPhotoIdsRef.current;
+    if (!client || sessionStatus !== 'connected') {
+      shared.clear();
+      return;
+    }
+
+    const ids = new Set(photos.map(p => p.id));
+    photos.forEach(photo => {
+      if (shared.has(photo.id)) return;
+      shared.add(photo.id);
+      client.sharePhoto(photo).catch(e => console.warn("Failed to share photo", e));
+    });
+    shared.forEach(id => {
+      if (ids.has(id)) return;
+      shared.delete(id);
+      client.unsharePhoto(id);
+    });
+  }, [photos, sessionStatus]);
+
+  // --- Remote control ---
+
+  const publishControlState = () => {
+    remoteControlRef.current?.publish({ type: 'state', gesture: gestureState, shape: toSharedShape(shape), photoCount: galleryPhotos.length });
+  };
+
+  const importRemotePhoto = async (url: string, caption = '') => {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const name = url.startsWith('data:') ? 'remote-photo' : decodeURIComponent(new URL(url).pathname.split('/').pop() || 'remote-photo');
+      await importPhotos([{ file: await response.blob(), name, createdAt: Date.now(), caption, favourite: false, album: '' }]);
+    } catch (e) {
+      console.error("Failed to fetch remote photo", e);
+      setStorageError(`Could not add remote photo: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  // Remote commands count as live input, like the camera or the pointer
+  const handleRemoteCommand = (command: RemoteControlCommand) => {
+    switch (command.type) {
+      case 'set-gesture': handleLiveGestureChange(command.state, 'remote'); break;
+      case 'hand': handleLiveHandMove(command.x, command.y); break;
+      case 'set-shape':
+        setShape(prev => ({ ...prev, id: command.id, text: command.text ?? prev.text, scale: command.scale ?? prev.scale }));
+        break;
+      case 'add-photo': importRemotePhoto(command.url, command.caption); break;
+      case 'get-state': publishControlState(); break;
+    }
+  };
+
+  // The control link outlives renders; it reaches the current handler through this ref
+  const remoteControlHandlersRef = useRef({ handleRemoteCommand });
+  remoteControlHandlersRef.current = { handleRemoteCommand };
+
+  useEffect(() => {
+    saveRemoteControlSettings(remoteControlSettings);
+    setBridgeStatus(null);
+    setBridgeError(null);
+
+    const { bridgeEnabled, bridgeUrl } = remoteControlSettings;
+    const control = createRemoteControl(bridgeEnabled ? bridgeUrl : null, {
+      onCommand: (command) => remoteControlHandlersRef.current.handleRemoteCommand(command),
+      onBridgeStatusChange: (status, error) => {
+        setBridgeStatus(status);
+        setBridgeError(error ?? null);
+      },
+    });
+    remoteControlRef.current = control;
+    return () => {
+      control.close();
+      remoteControlRef.current = null;
+    };
+  }, [remoteControlSettings]);
+
+  // Controllers always see the current state
+  useEffect(() => {
+    publishControlState();
+  }, [gestureState, shape, galleryPhotos.length, bridgeStatus]);
+
+  // Photo management: update state right away, report storage failures
+  const persistPhotos = (changed: StoredPhoto[]) => {
+    putPhotos(changed)
+      .catch(e => {
+        console.error("Failed to update photos", e);
+        setStorageError(`Could not save changes: ${e.message}`);
+      })
+      .finally(refreshStorageUsage);
+  };
+
+  const updatePhoto = (id: string, changes: Partial<StoredPhoto>) => {
+    const target = photos.find(p => p.id === id);
+    if (!target) return;
+    const updated = { ...target, ...changes };
+    setPhotos(prev => prev.map(p => p.id === id ? updated : p));
+    persistPhotos([updated]);
+  };
+
+  const handleDeletePhoto = (id: string) => {
+    setPhotos(prev => prev.filter(p => p.id !== id));
+    deletePhotos([id])
+      .catch(e => setStorageError(`Could not delete photo: ${e.message}`))
+      .finally(refreshStorageUsage);
+  };
+
+  const handleClearPhotos = () => {
+    setPhotos([]);
+    clearPhotos()
+      .catch(e => setStorageError(`Could not delete photos: ${e.message}`))
+      .finally(refreshStorageUsage);
+  };
+
+  const renumberPhotos = (reordered: StoredPhoto[]) => {
+    const renumbered = reordered.map((p, order) => p.order === order ? p : { ...p, order });
+    setPhotos(renumbered);
+    persistPhotos(renumbered.filter((p, i) => p !== reordered[i]));
+  };
+
+  const handleReorderPhotos = (fromIndex: number, toIndex: number) => {
+    const reordered = [...photos];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(toIndex, 0, moved);
+    renumberPhotos(reordered);
+  };
+
+  // Oldest first; photos without a capture date keep their relative order at the end
+  const handleSortByDate = () => {
+    renumberPhotos([...photos].sort((a, b) => (a.takenAt ?? Infinity) - (b.takenAt ?? Infinity) || 0));
   };
 
   return (
-    <div className="w-full h-screen bg-black relative overflow-hidden">
+    <div className="w-full h-screen bg-black relative overflow-hidden" style={getThemeCssVariables(theme)}>
       
       {/* 3D Scene */}
       <div className="absolute inset-0 z-0">
-        <Canvas camera={{ position: [0, 0, 30], fov: 60 }} dpr={[1, 2]}>
-          <color attach="background" args={['#020205']} />
+        <Canvas camera={{ position: [0, 0, 30], fov: 60 }} dpr={capturing ? 1 : [1, 2]} onPointerMissed={handlePointerMissed}>
+          <color attach="background" args={[theme.background]} />
           <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
           
           <ambientLight intensity={0.8} />
-          <spotLight position={[10, 10, 10]} angle={0.15} penumbra={1} intensity={1} color="#ccffff" />
+          <spotLight position={[10, 10, 10]} angle={0.15} penumbra={1} intensity={1} color={theme.spotLight} />
           
           <Suspense fallback={null}>
              {/* Layer 1: The Star Particles (Shape of Heart) */}
-             <HeartParticles gestureState={gestureState} handPosRef={handPosRef} />
+             <HeartParticles gestureState={gestureState} shape={shape} count={particleCount} dispersedRadius={tuning.dispersedRadius} interaction={particleInteraction} handSeenAtRef={handSeenAtRef} theme={theme} audioRef={audioRef} handPosRef={handPosRef} twoHandRef={twoHandRef} analogRef={analogRef} onUnavailable={setParticleError} />
              
              {/* Layer 2: The Floating Photos */}
              <PhotoGallery 
                 gestureState={gestureState} 
-                images={images} 
+                photos={galleryPhotos} 
+                shape={shape}
+                accentColor={theme.accent}
+                dispersedRadius={tuning.photoRadius}
+                layout={photoLayout}
                 handPosRef={handPosRef}
+                twoHandRef={twoHandRef}
+                analogRef={analogRef}
                 visible={showPhotos}
+                focusRequest={focusRequest}
+                onPhotoSelect={inputMode === 'pointer' ? handlePhotoSelect : undefined}
+                onFocusChange={setViewerIndex}
+                audioRef={audioRef}
              />
+
+             {/* Layer 3: Everyone else in a shared session */}
+             <RemotePeers peers={peers} peerHandsRef={peerHandsRef} theme={theme} shape={shape} dispersedRadius={tuning.dispersedRadius} audioRef={audioRef} onParticlesUnavailable={setParticleError} />
           </Suspense>
 
+          <CameraRig gestureState={gestureState} analogRef={analogRef} />
+
+          <SceneEffects quality={effectsQuality} gestureState={gestureState} analogRef={analogRef} />
+
+          <SceneCapture apiRef={sceneCaptureRef} />
+
           <OrbitControls 
             enableZoom={false} 
             enablePan={false} 
             autoRotate={false} 
-            enableRotate={gestureState !== GestureState.FOCUSED} 
+            enableRotate={inputMode === 'camera' && gestureState !== GestureState.FOCUSED} 
           />
         </Canvas>
       </div>
@@ -132,12 +926,21 @@ function App() {
       <div className="absolute top-8 left-8 z-10 text-white pointer-events-none select-none w-full max-w-md">
         <div className="flex justify-between items-start">
           <div>
-            <h1 className="text-4xl font-bold tracking-tighter bg-clip-text text-transparent bg-gradient-to-r from-cyan-400 to-blue-600">
+            <h1 className="text-4xl font-bold tracking-tighter bg-clip-text text-transparent bg-gradient-to-r from-[color:var(--accent)] to-[color:var(--accent-secondary)]">
               Heart Cloud
             </h1>
             <p className="mt-2 text-sm text-gray-400">
               Move hand to fly • V-Sign to Rotate • Pinch to Grab
             </p>
+            <p className="mt-1 text-xs text-gray-500">
+              Tilt hand to steer rotation • Move closer to zoom • Open pinch slowly to release
+            </p>
+            <p className="mt-1 text-xs text-gray-500">
+              While focused: swipe ← → to browse • swipe up or wave to close
+            </p>
+            <p className="mt-1 text-xs text-gray-500">
+              Two hands: bring together to Form • pull apart to Scale • twist to Rotate
+            </p>
           </div>
         </div>
         
@@ -147,28 +950,277 @@ function App() {
               <input 
                 type="file" 
                 multiple
-                accept="image/*" 
+                accept="image/*,video/*" 
                 ref={fileInputRef} 
                 onChange={handleFileUpload} 
                 className="hidden" 
               />
               <button 
                 onClick={() => fileInputRef.current?.click()}
-                className="px-4 py-2 bg-white/10 hover:bg-white/20 border border-cyan-500/50 rounded text-sm text-cyan-100 transition-colors backdrop-blur-md flex items-center gap-2"
+                className="px-4 py-2 bg-white/10 hover:bg-white/20 border border-[color:var(--accent-soft)] rounded text-sm text-[color:var(--accent-text)] transition-colors backdrop-blur-md flex items-center gap-2"
               >
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
                 </svg>
-                {images.length > 0 ? `Photos Loaded (${images.length})` : "Upload Photos"}
+                {importing ? "Importing..." : photos.length > 0 ? `Photos Loaded (${photos.length})` : "Upload Photos"}
+              </button>
+              <input 
+                type="file" 
+                ref={(el) => { folderInputRef.current = el; el?.setAttribute('webkitdirectory', ''); }} 
+                onChange={handleFileUpload} 
+                className="hidden" 
+              />
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <button 
+                  onClick={() => folderInputRef.current?.click()}
+                  title="Photos are grouped into an album named after their folder"
+                  className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md"
+                >
+                  Upload Folder
+                </button>
+                {photos.length > 0 && (
+                  <button 
+                    onClick={() => setShowPhotoManager(true)}
+                    className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md"
+                  >
+                    Manage Photos
+                  </button>
+                )}
+                <select 
+                  value={photoLayout}
+                  onChange={(e) => setPhotoLayout(e.target.value as PhotoLayout)}
+                  title="Photo layout"
+                  className="px-2 py-1 bg-black/40 border border-white/20 rounded text-xs text-white focus:outline-none focus:border-[color:var(--accent-soft)]"
+                >
+                  {PHOTO_LAYOUTS.map(l => (
+                    <option key={l.id} value={l.id}>{l.label}</option>
+                  ))}
+                </select>
+              </div>
+              {storageUsage && (
+                <p className="mt-1 text-[10px] font-mono text-gray-500">
+                  Storage: {formatBytes(storageUsage.usage)} / {formatBytes(storageUsage.quota)}
+                </p>
+              )}
+              {storageError && (
+                <p className="mt-1 text-xs text-red-400">{storageError}</p>
+              )}
+           </div>
+
+           {/* Formed Shape */}
+           <ShapePicker shape={shape} onChange={setShape} />
+
+           {/* Particle Count & Hand Interaction */}
+           <div className="mb-4 flex items-center gap-2 text-xs text-gray-300">
+              <span>Particles</span>
+              <select 
+                value={particleCount}
+                onChange={(e) => setParticleCount(Number(e.target.value))}
+                className="px-2 py-1 bg-black/40 border border-white/20 rounded text-xs text-white focus:outline-none focus:border-[color:var(--accent-soft)]"
+              >
+                {PARTICLE_COUNTS.map(n => (
+                  <option key={n} value={n}>{n.toLocaleString()}</option>
+                ))}
+              </select>
+              <span className="ml-2">Hand</span>
+              <select 
+                value={particleInteraction}
+                onChange={(e) => setParticleInteraction(e.target.value as ParticleInteraction)}
+                className="px-2 py-1 bg-black/40 border border-white/20 rounded text-xs text-white focus:outline-none focus:border-[color:var(--accent-soft)]"
+              >
+                <option value="follow">Cloud follows</option>
+                <option value="repel">Repels stars</option>
+                <option value="attract">Attracts stars</option>
+              </select>
+           </div>
+
+           {/* Theme */}
+           <div className="mb-4 flex items-center gap-2 text-xs text-gray-300">
+              <span>Theme</span>
+              <select 
+                value={theme.id}
+                onChange={(e) => setTheme(THEME_PRESETS.find(t => t.id === e.target.value) ?? theme)}
+                className="px-2 py-1 bg-black/40 border border-white/20 rounded text-xs text-white focus:outline-none focus:border-[color:var(--accent-soft)]"
+              >
+                {THEME_PRESETS.map(t => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+                {theme.id === 'custom' && <option value="custom">Custom</option>}
+              </select>
+              <button 
+                onClick={() => setShowThemePanel(true)}
+                className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md"
+              >
+                Customize
+              </button>
+              <span className="ml-2">Effects</span>
+              <select 
+                value={effectsQuality}
+                onChange={(e) => setEffectsQuality(e.target.value as EffectsQuality)}
+                className="px-2 py-1 bg-black/40 border border-white/20 rounded text-xs text-white focus:outline-none focus:border-[color:var(--accent-soft)]"
+              >
+                {EFFECTS_QUALITY_LEVELS.map(level => (
+                  <option key={level.id} value={level.id}>{level.label}</option>
+                ))}
+              </select>
+           </div>
+
+           {/* Music & Sound */}
+           <div className="mb-4">
+              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-300">
+                <input 
+                  type="file" 
+                  accept="audio/*" 
+                  ref={audioInputRef} 
+                  onChange={handleAudioTrackUpload} 
+                  className="hidden" 
+                />
+                <button onClick={() => audioInputRef.current?.click()} className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md">
+                  {audioSource === 'track' ? "Change Music" : "Play Music"}
+                </button>
+                {audioSource !== 'microphone' && (
+                  <button onClick={handleMicrophone} className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md">
+                    Use Microphone
+                  </button>
+                )}
+                {audioSource !== 'off' && (
+                  <button onClick={handleStopAudio} className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md">
+                    Stop Audio
+                  </button>
+                )}
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={soundEffectsEnabled} onChange={(e) => setSoundEffectsEnabled(e.target.checked)} />
+                  Sound effects
+                </label>
+              </div>
+              {audioNotice && (
+                <p className="mt-1 text-xs text-gray-400 truncate">{audioNotice}</p>
+              )}
+           </div>
+
+           {/* Slideshow */}
+           <div className="mb-4 flex items-center gap-2">
+              <button 
+                onClick={handleToggleSlideshow}
+                className={`px-3 py-1 border rounded text-xs transition-colors backdrop-blur-md ${slideshowEnabled ? 'bg-[color:var(--accent-faint)] border-[color:var(--accent-soft)] text-[color:var(--accent-text)]' : 'bg-white/5 hover:bg-white/10 border-white/20 text-gray-300'}`}
+              >
+                {slideshowEnabled ? "■ Stop Slideshow" : "▶ Slideshow"}
+              </button>
+              <button 
+                onClick={() => setShowSlideshowPanel(true)}
+                className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md"
+              >
+                Timing
+              </button>
+           </div>
+
+           {/* Scene Config Export / Import */}
+           <div className="mb-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <button onClick={handleExportScene} className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md">
+                  Export Scene
+                </button>
+                <button onClick={handleExportBundle} disabled={importing} className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md">
+                  Export with Photos
+                </button>
+                <button onClick={handleShareLink} className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md">
+                  Copy Link
+                </button>
+                <input 
+                  type="file" 
+                  accept="application/json,.json,application/zip,.zip" 
+                  ref={sceneInputRef} 
+                  onChange={handleSceneUpload} 
+                  className="hidden" 
+                />
+                <button onClick={() => sceneInputRef.current?.click()} className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md">
+                  Import Scene
+                </button>
+              </div>
+              {sceneMessage && (
+                <p className="mt-1 text-xs text-gray-400">{sceneMessage}</p>
+              )}
+           </div>
+
+           {/* Shared Session */}
+           <SessionControls 
+              status={sessionStatus}
+              error={sessionError}
+              peerCount={peers.length}
+              selfColor={sessionColor}
+              onJoin={handleJoinSession}
+              onLeave={handleLeaveSession}
+           />
+
+           {/* Remote Control */}
+           <RemoteControlOptions 
+              settings={remoteControlSettings}
+              bridgeStatus={bridgeStatus}
+              bridgeError={bridgeError}
+              onChange={setRemoteControlSettings}
+           />
+
+           {/* Calibration (camera only) */}
+           {inputMode === 'camera' && (
+             <div className="mb-4 flex items-center gap-2">
+                <button 
+                  onClick={() => setShowCalibration(true)}
+                  className="px-4 py-2 bg-white/10 hover:bg-white/20 border border-[color:var(--accent-soft)] rounded text-sm text-[color:var(--accent-text)] transition-colors backdrop-blur-md"
+                >
+                  {calibration ? "Recalibrate Gestures" : "Calibrate Gestures"}
+                </button>
+                {calibration && (
+                  <button 
+                    onClick={handleCalibrationReset}
+                    className="px-3 py-2 text-xs text-gray-400 hover:text-white transition-colors"
+                  >
+                    Reset
+                  </button>
+                )}
+             </div>
+           )}
+
+           {/* Landmark Recording / Replay */}
+           <div className="mb-4 flex items-center gap-2">
+              {inputMode === 'camera' && (
+                <button 
+                  onClick={handleToggleRecording}
+                  className={`px-3 py-1 border rounded text-xs transition-colors backdrop-blur-md ${isRecording ? 'bg-red-500/20 border-red-400/60 text-red-200' : 'bg-white/5 hover:bg-white/10 border-white/20 text-gray-300'}`}
+                >
+                  {isRecording ? "■ Stop & Save Recording" : "● Record Landmarks"}
+                </button>
+              )}
+              <input 
+                type="file" 
+                accept="application/json,.json" 
+                ref={replayInputRef} 
+                onChange={handleReplayUpload} 
+                className="hidden" 
+              />
+              <button 
+                onClick={() => replayInputRef.current?.click()}
+                className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md"
+              >
+                Replay Recording
               </button>
            </div>
 
+           {/* Video / Snapshot Export */}
+           <CaptureControls 
+              captureRef={sceneCaptureRef}
+              webcamRef={inputMode === 'camera' ? webcamRef : null}
+              busy={capturing}
+              canRenderReplay={replayRecording !== null}
+              onSnapshot={handleSnapshot}
+              onRenderReplay={handleRenderReplay}
+           />
+
            <div className={`flex items-center space-x-2 transition-opacity duration-300 ${gestureState === GestureState.DISPERSED ? 'opacity-100' : 'opacity-40'}`}>
               <div className="w-2 h-2 rounded-full bg-gray-500"></div>
               <span className="text-sm font-medium">Open Hand → Floating</span>
            </div>
            <div className={`flex items-center space-x-2 transition-opacity duration-300 ${gestureState === GestureState.FORMED ? 'opacity-100' : 'opacity-40'}`}>
-              <div className="w-2 h-2 rounded-full bg-cyan-500 shadow-[0_0_10px_rgba(34,211,238,0.8)]"></div>
+              <div className="w-2 h-2 rounded-full bg-[color:var(--accent)] shadow-[0_0_10px_var(--accent)]"></div>
               <span className="text-sm font-medium">Fist → Heart Cloud</span>
            </div>
            <div className={`flex items-center space-x-2 transition-opacity duration-300 ${gestureState === GestureState.ROTATING ? 'opacity-100' : 'opacity-40'}`}>
@@ -181,14 +1233,114 @@ function App() {
            </div>
         </div>
 
-        <div className="mt-8 p-3 bg-white/5 backdrop-blur-md rounded border border-cyan-500/30 inline-block">
-           <p className="text-xs font-mono text-cyan-200 animate-pulse">
+        <div className="mt-8 p-3 bg-white/5 backdrop-blur-md rounded border border-[color:var(--accent-faint)] inline-block">
+           <p className="text-xs font-mono text-[color:var(--accent-text)] animate-pulse">
              STATUS: {debugText}
            </p>
         </div>
+
+        {inputNotice && (
+          <p className="mt-2 text-xs text-yellow-300">{inputNotice}</p>
+        )}
+        {particleError && (
+          <p className="mt-2 text-xs text-yellow-300">Stars are unavailable on this device: {particleError}</p>
+        )}
       </div>
 
-      <VisionController onGestureChange={handleGestureChange} onHandMove={handleHandMove} />
+      {showPhotos && viewerIndex !== null && galleryPhotos[viewerIndex] && (
+        <PhotoViewerOverlay
+          photo={galleryPhotos[viewerIndex]}
+          index={viewerIndex}
+          total={galleryPhotos.length}
+          hint={inputMode === 'pointer' ? undefined : "Open the pinch to zoom, move your hand to pan"}
+        />
+      )}
+
+      {showPhotoManager && (
+        <PhotoManager 
+          photos={photoRecords}
+          onDelete={handleDeletePhoto}
+          onClear={handleClearPhotos}
+          onReorder={handleReorderPhotos}
+          onToggleFavourite={(id) => updatePhoto(id, { favourite: !photos.find(p => p.id === id)?.favourite })}
+          onCaptionChange={(id, caption) => updatePhoto(id, { caption })}
+          onAlbumChange={(id, album) => updatePhoto(id, { album: album.trim() })}
+          onSortByDate={handleSortByDate}
+          onClose={() => setShowPhotoManager(false)}
+        />
+      )}
+
+      {showThemePanel && (
+        <ThemePanel theme={theme} onChange={setTheme} onClose={() => setShowThemePanel(false)} />
+      )}
+
+      {showSlideshowPanel && (
+        <SlideshowPanel settings={slideshowSettings} onChange={setSlideshowSettings} onClose={() => setShowSlideshowPanel(false)} />
+      )}
+
+      {slideshowEnabled && renderProgress === null && (
+        <SlideshowController 
+          settings={slideshowSettings}
+          photoCount={galleryPhotos.length}
+          liveInputAtRef={liveInputAtRef}
+          onGestureChange={handleGestureChange}
+          onHandMove={handleHandMove}
+          onFocusPhoto={handlePhotoSelect}
+          onLiveTakeover={() => handleGestureChange(liveGestureRef.current)}
+        />
+      )}
+
+      {showCalibration && (
+        <CalibrationPanel 
+          landmarksRef={latestHandRef}
+          onComplete={handleCalibrationComplete}
+          onClose={() => setShowCalibration(false)}
+        />
+      )}
+
+      {renderProgress !== null ? (
+        <div className="absolute top-4 right-4 w-48 p-3 bg-black/50 rounded-lg border border-white/20 z-50 shadow-lg text-xs text-gray-300 space-y-2">
+          <p className="text-white font-semibold">Rendering video… {Math.round(renderProgress * 100)}%</p>
+          <div className="h-1 bg-white/10 rounded overflow-hidden">
+            <div className="h-full bg-[color:var(--accent)]" style={{ width: `${Math.round(renderProgress * 100)}%` }}></div>
+          </div>
+          <button
+            onClick={() => renderAbortRef.current?.abort()}
+            className="px-3 py-1 bg-white/10 hover:bg-white/20 border border-white/30 rounded text-white transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : inputMode === 'camera' ? (
+        <VisionController 
+          classifier={classifier}
+          onGestureChange={handleLiveGestureChange} 
+          onHandMove={handleLiveHandMove} 
+          onLandmarks={handleLandmarks}
+          onGestureFrame={handleGestureFrame}
+          onDynamicGesture={handleDynamicGesture}
+          onCameraUnavailable={handleCameraUnavailable}
+          onSwitchToPointer={() => handleInputModeChange('pointer')}
+          videoElementRef={webcamRef}
+        />
+      ) : inputMode === 'replay' && replayRecording ? (
+        <ReplayController 
+          recording={replayRecording}
+          classifier={classifier}
+          onGestureChange={handleLiveGestureChange} 
+          onHandMove={handleLiveHandMove} 
+          onLandmarks={handleLandmarks}
+          onGestureFrame={handleGestureFrame}
+          onDynamicGesture={handleDynamicGesture}
+          onStop={() => handleInputModeChange('camera')}
+        />
+      ) : (
+        <PointerController 
+          onGestureChange={handleLiveGestureChange} 
+          onHandMove={handleLiveHandMove} 
+          onSwitchToCamera={() => handleInputModeChange('camera')}
+        />
+      )}
       
     </div>
   );
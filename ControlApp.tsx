@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GestureState, RemoteControlEvent, RemoteControlSettings, ShapeId } from './types';
+import { BridgeStatus, RemoteController, createRemoteController, loadRemoteControlSettings } from './utils/remoteControl';
+import { SHAPES } from './utils/shapes';
+import { MAX_SHAPE_SCALE } from './utils/sceneConfig';
+
+const GESTURE_BUTTONS: { state: GestureState; label: string }[] = [
+  { state: GestureState.DISPERSED, label: "Disperse" },
+  { state: GestureState.FORMED, label: "Form" },
+  { state: GestureState.ROTATING, label: "Rotate" },
+  { state: GestureState.FOCUSED, label: "Focus Photo" },
+];
+
+// Image shapes need a picture, which the API can't send
+const REMOTE_SHAPES = SHAPES.filter(s => s.id !== 'image');
+const LOG_LENGTH = 12;
+
+type SceneState = Extract<RemoteControlEvent, { type: 'state' }>;
+
+const readAsDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// Companion page for the remote control API: another tab (same origin) or, through the bridge, another device
+function ControlApp() {
+  const [settings, setSettings] = useState<RemoteControlSettings>(() => loadRemoteControlSettings());
+  const [bridgeUrl, setBridgeUrl] = useState(settings.bridgeUrl);
+  const [bridgeStatus, setBridgeStatus] = useState<BridgeStatus | null>(null);
+  const [bridgeError, setBridgeError] = useState<string | null>(null);
+  const [sceneState, setSceneState] = useState<SceneState | null>(null);
+  const [log, setLog] = useState<string[]>([]);
+  const controllerRef = useRef<RemoteController | null>(null);
+
+  const [shapeId, setShapeId] = useState<ShapeId>('heart');
+  const [shapeText, setShapeText] = useState('');
+  const [shapeScale, setShapeScale] = useState(1);
+  const [photoUrl, setPhotoUrl] = useState('');
+  const [caption, setCaption] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setBridgeStatus(null);
+    setBridgeError(null);
+
+    const controller = createRemoteController(settings.bridgeEnabled ? settings.bridgeUrl : null, {
+      onEvent: (event) => {
+        if (event.type === 'state') {
+          setSceneState(event);
+          return;
+        }
+        const entry = event.type === 'gesture' ? `${event.state} (${event.source})` : event.gesture;
+        setLog(prev => [`${new Date().toLocaleTimeString()}  ${entry}`, ...prev].slice(0, LOG_LENGTH));
+      },
+      onBridgeStatusChange: (status, error) => {
+        setBridgeStatus(status);
+        setBridgeError(error ?? null);
+        if (status === 'connected') controller.send({ type: 'get-state' });
+      },
+    });
+    controllerRef.current = controller;
+    controller.send({ type: 'get-state' });
+    return () => {
+      controller.close();
+      controllerRef.current = null;
+    };
+  }, [settings]);
+
+  const send: RemoteController['send'] = (command) => controllerRef.current?.send(command);
+
+  // The pad is a mirror image of the camera view, like the scene's own hand tracking
+  const handlePadPointer = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.buttons === 0 && event.type !== 'pointerdown') return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    send({
+      type: 'hand',
+      x: 1 - (event.clientX - rect.left) / rect.width,
+      y: (event.clientY - rect.top) / rect.height,
+    });
+  };
+
+  const handleApplyShape = () => {
+    send({ type: 'set-shape', id: shapeId, text: shapeText, scale: shapeScale });
+  };
+
+  const handleAddPhotoUrl = () => {
+    if (!photoUrl.trim()) return;
+    send({ type: 'add-photo', url: photoUrl.trim(), caption });
+    setPhotoUrl('');
+    setCaption('');
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    for (const file of files) {
+      send({ type: 'add-photo', url: await readAsDataUrl(file), caption });
+    }
+    setCaption('');
+  };
+
+  const panelClass = "p-4 bg-white/5 border border-pink-500/20 rounded-lg space-y-3";
+  const buttonClass = "px-3 py-2 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-sm text-gray-200 transition-colors";
+  const inputClass = "px-2 py-1 bg-black/40 border border-white/20 rounded text-sm text-white focus:outline-none focus:border-pink-400/60";
+
+  return (
+    <div className="min-h-screen p-6 text-white">
+      <div className="max-w-xl mx-auto space-y-4">
+        <h1 className="text-3xl font-bold tracking-tighter bg-clip-text text-transparent bg-gradient-to-r from-pink-400 to-purple-400">
+          Heart Cloud Control
+        </h1>
+
+        {/* Connection */}
+        <div className={panelClass}>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={settings.bridgeEnabled}
+                onChange={(e) => setSettings({ bridgeEnabled: e.target.checked, bridgeUrl: bridgeUrl.trim() || settings.bridgeUrl })}
+              />
+              Use bridge
+            </label>
+            <input
+              value={bridgeUrl}
+              onChange={(e) => setBridgeUrl(e.target.value)}
+              disabled={settings.bridgeEnabled}
+              placeholder="ws://host:8788/?token=…"
+              className={`flex-1 ${inputClass}`}
+            />
+          </div>
+          <p className="text-xs text-gray-400">
+            {settings.bridgeEnabled
+              ? bridgeStatus === 'connected' ? "Connected to the bridge" : bridgeError ?? "Connecting…"
+              : "Talking to scenes open in this browser"}
+          </p>
+          <p className="text-xs font-mono text-pink-200">
+            {sceneState
+              ? `${sceneState.gesture} • ${sceneState.shape.id}${sceneState.shape.text ? ` “${sceneState.shape.text}”` : ''} × ${sceneState.shape.scale} • ${sceneState.photoCount} photo(s)`
+              : "No scene has answered yet"}
+          </p>
+        </div>
+
+        {/* Gestures */}
+        <div className={panelClass}>
+          <div className="grid grid-cols-2 gap-2">
+            {GESTURE_BUTTONS.map(({ state, label }) => (
+              <button
+                key={state}
+                onClick={() => send({ type: 'set-gesture', state })}
+                className={`${buttonClass} ${sceneState?.gesture === state ? 'border-pink-400/60 text-pink-200' : ''}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div
+            onPointerDown={handlePadPointer}
+            onPointerMove={handlePadPointer}
+            className="h-48 bg-black/40 border border-white/20 rounded touch-none flex items-center justify-center text-xs text-gray-500 select-none"
+          >
+            Drag to move the hand
+          </div>
+        </div>
+
+        {/* Shape */}
+        <div className={panelClass}>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+            <select value={shapeId} onChange={(e) => setShapeId(e.target.value as ShapeId)} className={inputClass}>
+              {REMOTE_SHAPES.map(s => (
+                <option key={s.id} value={s.id}>{s.label}</option>
+              ))}
+            </select>
+            {shapeId === 'text' && (
+              <input value={shapeText} onChange={(e) => setShapeText(e.target.value)} placeholder="Text" className={`w-28 ${inputClass}`} />
+            )}
+            <label className="flex items-center gap-1">
+              Size
+              <input
+                type="range" min={0.25} max={MAX_SHAPE_SCALE} step={0.25}
+                value={shapeScale}
+                onChange={(e) => setShapeScale(Number(e.target.value))}
+              />
+              <span className="w-8 font-mono text-xs">{shapeScale}</span>
+            </label>
+            <button onClick={handleApplyShape} className={buttonClass}>Apply</button>
+          </div>
+        </div>
+
+        {/* Photos */}
+        <div className={panelClass}>
+          <div className="flex flex-wrap items-center gap-2">
+            <input value={photoUrl} onChange={(e) => setPhotoUrl(e.target.value)} placeholder="https://… image URL" className={`flex-1 ${inputClass}`} />
+            <input value={caption} onChange={(e) => setCaption(e.target.value)} placeholder="Caption" className={`w-28 ${inputClass}`} />
+          </div>
+          <div className="flex gap-2">
+            <button onClick={handleAddPhotoUrl} disabled={!photoUrl.trim()} className={buttonClass}>Add URL</button>
+            <input type="file" multiple accept="image/*" ref={fileInputRef} onChange={handleFileUpload} className="hidden" />
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>Send Files</button>
+          </div>
+        </div>
+
+        {/* Gesture events from the scene */}
+        <div className={panelClass}>
+          <p className="text-xs text-gray-400">Gesture events</p>
+          {log.length === 0 ? (
+            <p className="text-xs text-gray-500">None yet</p>
+          ) : (
+            <ul className="text-xs font-mono text-gray-300 space-y-1">
+              {log.map((entry, i) => <li key={i}>{entry}</li>)}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ControlApp;
@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CalibrationPose, CalibrationProfile, HandFeatures, HandLandmark } from '../types';
+import { extractHandFeatures } from '../utils/gestureClassifier';
+import { CALIBRATION_STEPS, averageFeatures, createCalibrationProfile } from '../utils/calibration';
+
+interface CalibrationPanelProps {
+  landmarksRef: React.MutableRefObject<HandLandmark[] | null>;
+  onComplete: (profile: CalibrationProfile) => void;
+  onClose: () => void;
+}
+
+const SAMPLE_FRAMES = 30;
+const COUNTDOWN_SECONDS = 3;
+const CAPTURE_TIMEOUT_MS = 6000;
+
+type Phase = 'idle' | 'countdown' | 'capturing' | 'done';
+
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ landmarksRef, onComplete, onClose }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const recordedRef = useRef<Partial<Record<CalibrationPose, HandFeatures>>>({});
+  const frameRef = useRef<number>(0);
+
+  const step = CALIBRATION_STEPS[stepIndex];
+
+  // Countdown before each capture so the user can get into the pose
+  useEffect(() => {
+    if (phase !== 'countdown') return;
+    if (countdown <= 0) {
+      setPhase('capturing');
+      return;
+    }
+    const timer = setTimeout(() => setCountdown(c => c - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [phase, countdown]);
+
+  // Sample the live landmark stream until we have enough frames of the pose
+  useEffect(() => {
+    if (phase !== 'capturing') return;
+
+    const samples: HandFeatures[] = [];
+    const startedAt = performance.now();
+    let lastHand: HandLandmark[] | null = null;
+
+    const sample = () => {
+      const hand = landmarksRef.current;
+      // Only count new detections, the ref keeps the last frame between updates
+      if (hand && hand !== lastHand) {
+        samples.push(extractHandFeatures(hand));
+        setProgress(samples.length / SAMPLE_FRAMES);
+      }
+      lastHand = hand;
+
+      if (samples.length >= SAMPLE_FRAMES) {
+        recordedRef.current[step.pose] = averageFeatures(samples);
+
+        if (stepIndex + 1 < CALIBRATION_STEPS.length) {
+          setStepIndex(i => i + 1);
+          setPhase('idle');
+        } else {
+          const profile = createCalibrationProfile(recordedRef.current as Record<CalibrationPose, HandFeatures>);
+          setPhase('done');
+          onComplete(profile);
+        }
+        return;
+      }
+
+      if (performance.now() - startedAt > CAPTURE_TIMEOUT_MS) {
+        setError("No hand detected. Make sure your hand is visible in the camera preview.");
+        setPhase('idle');
+        return;
+      }
+
+      frameRef.current = requestAnimationFrame(sample);
+    };
+
+    frameRef.current = requestAnimationFrame(sample);
+    return () => cancelAnimationFrame(frameRef.current);
+  }, [phase]);
+
+  const startCapture = () => {
+    setError(null);
+    setProgress(0);
+    setCountdown(COUNTDOWN_SECONDS);
+    setPhase('countdown');
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="w-full max-w-sm p-6 bg-white/5 border border-[color:var(--accent-faint)] rounded-lg text-white">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold">Gesture Calibration</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">Close</button>
+        </div>
+
+        {phase === 'done' ? (
+          <div className="mt-4 space-y-4">
+            <p className="text-sm text-[color:var(--accent-text)]">Calibration saved. Your gestures will use these thresholds from now on.</p>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-white/10 hover:bg-white/20 border border-[color:var(--accent-soft)] rounded text-sm text-[color:var(--accent-text)] transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <div className="mt-4 space-y-4">
+            <p className="text-xs font-mono text-gray-400">
+              STEP {stepIndex + 1} / {CALIBRATION_STEPS.length}
+            </p>
+            <div>
+              <p className="text-xl font-bold text-[color:var(--accent-text)]">{step.label}</p>
+              <p className="mt-1 text-sm text-gray-300">{step.instruction}</p>
+            </div>
+
+            {phase === 'countdown' && (
+              <p className="text-3xl font-mono text-center">{countdown}</p>
+            )}
+            {phase === 'capturing' && (
+              <div className="h-2 bg-white/10 rounded overflow-hidden">
+                <div className="h-full bg-[color:var(--accent)] transition-all" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+              </div>
+            )}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            <button
+              onClick={startCapture}
+              disabled={phase !== 'idle'}
+              className="px-4 py-2 bg-white/10 hover:bg-white/20 disabled:opacity-40 border border-[color:var(--accent-soft)] rounded text-sm text-[color:var(--accent-text)] transition-colors"
+            >
+              Capture {step.label}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationPanel;
\ No newline at end of file
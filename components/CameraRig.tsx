@@ -0,0 +1,33 @@
+import React from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { AnalogParams, GestureState } from '../types';
+
+interface CameraRigProps {
+  gestureState: GestureState;
+  analogRef: React.MutableRefObject<AnalogParams | null>;
+}
+
+const DEFAULT_DISTANCE = 30;
+const NEAR_DISTANCE = 20; // Hand close to the camera
+const FAR_DISTANCE = 40;  // Hand far from the camera
+
+// Zooms the camera with hand depth. Moves along the current view direction so it
+// combines with OrbitControls instead of fighting it.
+const CameraRig: React.FC<CameraRigProps> = ({ gestureState, analogRef }) => {
+  useFrame((state) => {
+    const analog = analogRef.current;
+
+    // Focused photos sit at a fixed world position, keep the default distance then
+    const targetDistance = analog && gestureState !== GestureState.FOCUSED
+      ? THREE.MathUtils.lerp(FAR_DISTANCE, NEAR_DISTANCE, analog.depth)
+      : DEFAULT_DISTANCE;
+
+    const camera = state.camera;
+    camera.position.setLength(THREE.MathUtils.lerp(camera.position.length(), targetDistance, 0.05));
+  });
+
+  return null;
+};
+
+export default CameraRig;
\ No newline at end of file
@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SceneCaptureApi } from './SceneCapture';
+import { CanvasRecorder, createCanvasRecorder, isOfflineRenderSupported, isVideoRecordingSupported } from '../utils/videoExport';
+import { downloadBlob } from '../utils/download';
+
+interface CaptureControlsProps {
+  captureRef: React.MutableRefObject<SceneCaptureApi | null>;
+  webcamRef: React.MutableRefObject<HTMLVideoElement | null> | null; // Offers the webcam inset when set
+  busy: boolean;            // A snapshot or offline render is running
+  canRenderReplay: boolean; // A landmark recording is loaded
+  onSnapshot: (width: number, height: number) => void;
+  onRenderReplay: (width: number, height: number) => void;
+}
+
+const DEFAULT_WIDTH = 1920;
+const DEFAULT_HEIGHT = 1080;
+const LIVE_FPS = 30;
+
+// Live WebM recording of the scene, plus the output size for snapshots & offline renders
+const CaptureControls: React.FC<CaptureControlsProps> = ({ captureRef, webcamRef, busy, canRenderReplay, onSnapshot, onRenderReplay }) => {
+  const [width, setWidth] = useState(DEFAULT_WIDTH);
+  const [height, setHeight] = useState(DEFAULT_HEIGHT);
+  const [includeWebcam, setIncludeWebcam] = useState(true);
+  const [recording, setRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<CanvasRecorder | null>(null);
+
+  // Don't leave a recorder running if the controls go away
+  useEffect(() => () => { recorderRef.current?.stop(); }, []);
+
+  const handleToggleRecording = async () => {
+    if (recorderRef.current) {
+      const recorder = recorderRef.current;
+      recorderRef.current = null;
+      setRecording(false);
+      const blob = await recorder.stop();
+      downloadBlob(blob, `heart-cloud-${Date.now()}.webm`);
+      return;
+    }
+
+    const api = captureRef.current;
+    if (!api) return;
+    try {
+      recorderRef.current = createCanvasRecorder(api.getCanvas(), {
+        fps: LIVE_FPS,
+        getPipVideo: webcamRef && includeWebcam ? () => webcamRef.current : undefined,
+      });
+      setError(null);
+      setRecording(true);
+    } catch (e) {
+      console.error("Failed to start recording", e);
+      setError(`Could not start recording: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const sizeInputClass = "w-16 px-1 py-1 bg-black/40 border border-white/20 rounded text-xs text-white focus:outline-none focus:border-[color:var(--accent-soft)]";
+  const buttonClass = "px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md disabled:opacity-40";
+
+  return (
+    <div className="mb-4 space-y-2 text-xs text-gray-300">
+      <div className="flex items-center gap-2">
+        {isVideoRecordingSupported() && (
+          <button
+            onClick={handleToggleRecording}
+            disabled={busy}
+            className={`px-3 py-1 border rounded text-xs transition-colors backdrop-blur-md ${recording ? 'bg-red-500/20 border-red-400/60 text-red-200' : 'bg-white/5 hover:bg-white/10 border-white/20 text-gray-300'}`}
+          >
+            {recording ? "■ Stop & Save Video" : "● Record Video"}
+          </button>
+        )}
+        {webcamRef && (
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={includeWebcam} disabled={recording} onChange={(e) => setIncludeWebcam(e.target.checked)} />
+            Webcam inset
+          </label>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <input type="number" min={2} step={2} value={width} onChange={(e) => setWidth(Number(e.target.value))} className={sizeInputClass} />
+        <span>×</span>
+        <input type="number" min={2} step={2} value={height} onChange={(e) => setHeight(Number(e.target.value))} className={sizeInputClass} />
+        <button onClick={() => onSnapshot(width, height)} disabled={busy || recording || !(width > 0 && height > 0)} className={buttonClass}>
+          Snapshot
+        </button>
+        {canRenderReplay && isOfflineRenderSupported() && (
+          <button onClick={() => onRenderReplay(width, height)} disabled={busy || recording || !(width > 0 && height > 0)} className={buttonClass}>
+            Render Replay Video
+          </button>
+        )}
+      </div>
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default CaptureControls;
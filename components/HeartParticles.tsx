@@ -1,173 +1,290 @@
-import React, { useRef, useMemo } from 'react';
-import { useFrame } from '@react-three/fiber';
+import React, { useRef, useMemo, useEffect, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import { GestureState } from '../types';
-import { randomInHeart, randomInSphere } from '../utils/math';
+import { AnalogParams, AudioLevels, GestureState, ParticleInteraction, ShapeSelection, Theme } from '../types';
+import { randomInSphere } from '../utils/math';
+import { sampleShape } from '../utils/shapes';
+import { TwoHandSceneState, applyTwoHandTransform } from '../utils/twoHandGestures';
+import { getFocusLevel, getSpinSpeed } from '../utils/analogGestures';
+import { ParticleSimulation, createParticleSimulation, getSimulationSize } from '../utils/particleSimulation';
+import { PARTICLE_FRAGMENT_SHADER, PARTICLE_VERTEX_SHADER } from '../utils/particleShaders';
+import { pickPaletteColor } from '../utils/theme';
 
 interface HeartParticlesProps {
   gestureState: GestureState;
   handPosRef: React.MutableRefObject<THREE.Vector3>;
+  twoHandRef: React.MutableRefObject<TwoHandSceneState>;
+  analogRef: React.MutableRefObject<AnalogParams | null>;
+  shape: ShapeSelection; // Formed target, particles morph over when it changes
+  count: number;         // Number of particles (simulated on the GPU)
+  dispersedRadius: number; // Size of the floating star cloud
+  interaction: ParticleInteraction;
+  handSeenAtRef: React.MutableRefObject<number>; // performance.now() of the last hand / pointer update
+  theme: Theme; // Palette, glow & light colour
+  audioRef: React.MutableRefObject<AudioLevels | null>; // null without music / microphone
+  onUnavailable?: (message: string | null) => void; // The GPU can't run the simulation (the particles stay hidden); null once it runs
 }
 
-const COUNT = 5000;
-const DAMPING = 0.05;
+const PARTICLE_SIZE = 0.15;   // World-space diameter
+const COLOR_MORPH_SPEED = 1;  // Colour morphs take about a second
 
-const HeartParticles: React.FC<HeartParticlesProps> = ({ gestureState, handPosRef }) => {
-  const meshRef = useRef<THREE.InstancedMesh>(null);
+const FIELD_FORCE = 150;      // Peak acceleration of the hand force field
+const HAND_TIMEOUT_MS = 500;  // The force field switches off once the hand is gone this long
+
+const TWINKLE = 0.5;          // Twinkle amplitude in silence...
+const BASS_TWINKLE = 0.4;     // ...plus this much at full bass
+const BEAT_SCALE = 0.08;      // The formed shape swells by this much on a beat
+
+const HeartParticles: React.FC<HeartParticlesProps> = ({ gestureState, handPosRef, twoHandRef, analogRef, shape, count, dispersedRadius, interaction, handSeenAtRef, theme, audioRef, onUnavailable }) => {
+  const gl = useThree(state => state.gl);
+  const pointsRef = useRef<THREE.Points>(null);
   const groupRef = useRef<THREE.Group>(null);
+  const twistRef = useRef<THREE.Group>(null);
   const lightRef = useRef<THREE.PointLight>(null);
 
-  // Store target positions for both states
-  const { heartPositions, dispersedPositions, colors, randomPhases } = useMemo(() => {
-    const hPos = new Float32Array(COUNT * 3);
-    const dPos = new Float32Array(COUNT * 3);
-    const cols = new Float32Array(COUNT * 3);
-    const phases = new Float32Array(COUNT);
-    const colorObj = new THREE.Color();
+  // Formed target, re-sampled when the shape changes (the simulation does the morph).
+  // Image shapes also bring their own per-particle colours.
+  const formed = useMemo(() => sampleShape(shape, count), [shape, count]);
 
-    for (let i = 0; i < COUNT; i++) {
-      // Heart Target
-      const h = randomInHeart(0.6); // Scale heart slightly larger
-      hPos[i * 3] = h.x;
-      hPos[i * 3 + 1] = h.y;
-      hPos[i * 3 + 2] = h.z;
+  // Dispersed target & per-particle look
+  const { dispersedPositions, paletteSeeds, noisePhases, twinklePhases } = useMemo(() => {
+    const dPos = new Float32Array(count * 3);
+    const seeds = new Float32Array(count);
+    const noise = new Float32Array(count);
+    const twinkle = new Float32Array(count);
 
+    for (let i = 0; i < count; i++) {
       // Dispersed Target
-      const d = randomInSphere(40);
+      const d = randomInSphere(dispersedRadius);
       dPos[i * 3] = d.x;
       dPos[i * 3 + 1] = d.y;
       dPos[i * 3 + 2] = d.z;
 
-      // New Color Palette: Deeper Blues & White for contrast
-      const r = Math.random();
-      if (r > 0.9) colorObj.setHex(0xffffff); // White Sparkles
-      else if (r > 0.6) colorObj.setHex(0x38bdf8); // Sky Blue (Tailwind Sky-400)
-      else if (r > 0.3) colorObj.setHex(0x0ea5e9); // Ocean Blue (Tailwind Sky-500)
-      else colorObj.setHex(0x0284c7); // Deep Blue (Tailwind Sky-600)
-      
-      cols[i * 3] = colorObj.r;
-      cols[i * 3 + 1] = colorObj.g;
-      cols[i * 3 + 2] = colorObj.b;
-      
-      phases[i] = Math.random() * Math.PI * 2;
+      // Fixed per particle so a theme change recolours consistently
+      seeds[i] = Math.random();
+
+      noise[i] = i; // Same per-index wobble as the old CPU loop
+      twinkle[i] = Math.random() * Math.PI * 2;
     }
-    return { heartPositions: hPos, dispersedPositions: dPos, colors: cols, randomPhases: phases };
-  }, []);
+    return { dispersedPositions: dPos, paletteSeeds: seeds, noisePhases: noise, twinklePhases: twinkle };
+  }, [count, dispersedRadius]);
 
-  // Current positions (for animation)
-  const currentPositions = useRef(new Float32Array(dispersedPositions));
-  const dummy = useMemo(() => new THREE.Object3D(), []);
+  // Theme palette, weighted per particle
+  const paletteColors = useMemo(() => {
+    const cols = new Float32Array(count * 3);
+    const colorObj = new THREE.Color();
+    for (let i = 0; i < count; i++) {
+      colorObj.set(pickPaletteColor(theme.palette, paletteSeeds[i]));
+      colorObj.toArray(cols, i * 3);
+    }
+    return cols;
+  }, [count, paletteSeeds, theme.palette]);
+
+  // Positions live on the GPU; recreated when the particle count changes
+  const [simulation, setSimulation] = useState<ParticleSimulation | null>(null);
+  useEffect(() => {
+    let sim: ParticleSimulation;
+    try {
+      sim = createParticleSimulation(gl, count, dispersedPositions, noisePhases);
+    } catch (e) {
+      console.error("Failed to start the particle simulation", e);
+      onUnavailable?.(e instanceof Error ? e.message : String(e));
+      setSimulation(null); // The previous one is already disposed
+      return;
+    }
+    setSimulation(sim);
+    onUnavailable?.(null);
+    return () => sim.dispose();
+  }, [gl, count, dispersedPositions, noisePhases]);
+
+  useEffect(() => {
+    simulation?.setFormed(formed.positions);
+  }, [simulation, formed]);
+
+  // Render geometry: one point per texel of the position texture
+  const geometry = useMemo(() => {
+    const geo = new THREE.BufferGeometry();
+    const size = getSimulationSize(count);
+    const refs = new Float32Array(count * 2);
+    for (let i = 0; i < count; i++) {
+      refs[i * 2] = (i % size + 0.5) / size;
+      refs[i * 2 + 1] = (Math.floor(i / size) + 0.5) / size;
+    }
+    // Positions come from the texture; this attribute only sets the draw count
+    geo.setAttribute('position', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+    geo.setAttribute('aRef', new THREE.BufferAttribute(refs, 2));
+    geo.setAttribute('aPhase', new THREE.BufferAttribute(twinklePhases, 1));
+    // Colours fade in from black via the colour morph below
+    geo.setAttribute('aColorFrom', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+    geo.setAttribute('aColorTo', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+    return geo;
+  }, [count, twinklePhases]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    vertexShader: PARTICLE_VERTEX_SHADER,
+    fragmentShader: PARTICLE_FRAGMENT_SHADER,
+    uniforms: {
+      tPosition: { value: null },
+      uTime: { value: 0 },
+      uSize: { value: PARTICLE_SIZE },
+      uPixelScale: { value: 1 },
+      uColorMix: { value: 1 },
+      uTwinkle: { value: TWINKLE },
+      uOpacity: { value: 1 },
+      uEmissive: { value: new THREE.Color() },
+    },
+    transparent: true,
+    depthWrite: false,
+  }), []);
+  useEffect(() => () => material.dispose(), [material]);
+
+  useEffect(() => {
+    material.uniforms.uEmissive.value.setScalar(theme.emissiveIntensity);
+  }, [material, theme.emissiveIntensity]);
+
+  // Colour morph: freeze the current blend as the new start, then blend towards the new colours
+  useEffect(() => {
+    const from = geometry.getAttribute('aColorFrom') as THREE.BufferAttribute;
+    const to = geometry.getAttribute('aColorTo') as THREE.BufferAttribute;
+    const fromArray = from.array as Float32Array;
+    const toArray = to.array as Float32Array;
+    const mix = material.uniforms.uColorMix.value;
+
+    for (let i = 0; i < fromArray.length; i++) {
+      fromArray[i] += (toArray[i] - fromArray[i]) * mix;
+    }
+    toArray.set(formed.colors ?? paletteColors);
+    from.needsUpdate = true;
+    to.needsUpdate = true;
+    material.uniforms.uColorMix.value = 0;
+  }, [formed, geometry, paletteColors, material]);
+
+  const leftOffset = useMemo(() => new THREE.Vector3(), []);
+  const rightOffset = useMemo(() => new THREE.Vector3(), []);
+  const drawingBufferSize = useMemo(() => new THREE.Vector2(), []);
+  const handLocal = useMemo(() => new THREE.Vector3(), []);
+  const previousHandLocal = useMemo(() => new THREE.Vector3(), []);
+  const handVelocity = useMemo(() => new THREE.Vector3(), []);
+  const handVelocitySample = useMemo(() => new THREE.Vector3(), []);
 
   useFrame((state, delta) => {
-    if (!meshRef.current || !groupRef.current) return;
+    if (!pointsRef.current || !groupRef.current || !simulation) return;
 
     const time = state.clock.getElapsedTime();
     const isFormed = gestureState === GestureState.FORMED || gestureState === GestureState.ROTATING;
-    
+
+    const fieldMode = interaction !== 'follow';
+
     // 1. GLOBAL MOVEMENT & PARALLAX TILT
-    // Rule: When Formed/Rotating, force position to center (0,0,0). When Dispersed, follow hand.
-    const targetPos = isFormed ? new THREE.Vector3(0, 0, 0) : handPosRef.current;
+    // Rule: When Formed/Rotating, force position to center (0,0,0). When Dispersed, follow hand
+    // (unless the hand drives the force field instead, then the cloud stays put).
+    const targetPos = isFormed || fieldMode ? new THREE.Vector3(0, 0, 0) : handPosRef.current;
     groupRef.current.position.lerp(targetPos, 0.1);
 
     // Apply Parallax Tilt based on hand position (Tilt works in ALL modes)
     // Moving hand Right (Pos X+) -> Tits cloud to look Left (Rot Y+)
     // Moving hand Up (Pos Y+) -> Tilts cloud to look Down (Rot X-)
-    const targetRotX = -handPosRef.current.y * 0.05; 
+    const targetRotX = -handPosRef.current.y * 0.05;
     const targetRotY = handPosRef.current.x * 0.05;
 
     groupRef.current.rotation.x = THREE.MathUtils.lerp(groupRef.current.rotation.x, targetRotX, 0.05);
     groupRef.current.rotation.y = THREE.MathUtils.lerp(groupRef.current.rotation.y, targetRotY, 0.05);
 
-    // 2. PARTICLE LERPING
-    let targetBuffer = dispersedPositions;
-    let scale = 1;
+    // Two hands holding the heart: scale with hand distance, twist on every axis
+    const twoHand = twoHandRef.current;
+    if (twistRef.current) {
+        applyTwoHandTransform(twistRef.current, twoHand);
+    }
 
-    // Logic: Stars form heart on Fist, Rotation, or Focus
-    if (isFormed || gestureState === GestureState.FOCUSED) {
-      targetBuffer = heartPositions;
-      scale = 1;
-    } else {
-      targetBuffer = dispersedPositions;
-      scale = 1;
+    // 2. PARTICLE SIMULATION (GPU)
+    // Two hands up but not together yet: each hand carries half of the heart
+    const splitHeart = twoHand.active && !twoHand.holding;
+    if (splitHeart) {
+      leftOffset.copy(twoHand.left).sub(groupRef.current.position);
+      rightOffset.copy(twoHand.right).sub(groupRef.current.position);
     }
 
-    for (let i = 0; i < COUNT; i++) {
-      const idx = i * 3;
-      
-      const tx = targetBuffer[idx] * scale;
-      const ty = targetBuffer[idx + 1] * scale;
-      const tz = targetBuffer[idx + 2] * scale;
-
-      const noise = Math.sin(time * 2 + i) * 0.1;
-
-      currentPositions.current[idx] += (tx - currentPositions.current[idx]) * DAMPING;
-      currentPositions.current[idx + 1] += (ty + noise - currentPositions.current[idx + 1]) * DAMPING;
-      currentPositions.current[idx + 2] += (tz - currentPositions.current[idx + 2]) * DAMPING;
-
-      dummy.position.set(
-        currentPositions.current[idx],
-        currentPositions.current[idx + 1],
-        currentPositions.current[idx + 2]
-      );
-      
-      dummy.rotation.set(time * 0.5, time * 0.3, 0);
-      
-      // Twinkle
-      const twinkle = 1 + Math.sin(time * 3 + randomPhases[i]) * 0.5;
-      dummy.scale.setScalar(0.15 * twinkle);
-      
-      dummy.updateMatrix();
-      meshRef.current.setMatrixAt(i, dummy.matrix);
+    // Hand in particle space (and how fast it moves) for the force field
+    handLocal.copy(handPosRef.current);
+    pointsRef.current.worldToLocal(handLocal);
+    if (delta > 0) {
+      handVelocitySample.subVectors(handLocal, previousHandLocal).divideScalar(delta);
+      handVelocity.lerp(handVelocitySample, 0.3);
     }
-    
+    previousHandLocal.copy(handLocal);
+
+    // Logic: Stars form the selected shape on Fist, Rotation, or Focus
+    const showShape = isFormed || gestureState === GestureState.FOCUSED || splitHeart;
+    const handPresent = performance.now() - handSeenAtRef.current < HAND_TIMEOUT_MS;
+    const force = fieldMode && !showShape && handPresent
+      ? (interaction === 'repel' ? FIELD_FORCE : -FIELD_FORCE)
+      : 0;
+
+    simulation.update({
+      time,
+      delta,
+      formed: showShape,
+      split: splitHeart,
+      leftOffset,
+      rightOffset,
+      force,
+      hand: handLocal,
+      handVelocity,
+    });
+
+    const uniforms = material.uniforms;
+    uniforms.tPosition.value = simulation.getPositionTexture();
+    uniforms.uTime.value = time;
+    uniforms.uColorMix.value = Math.min(1, uniforms.uColorMix.value + delta * COLOR_MORPH_SPEED);
+
+    // Music: bass drives the twinkle, beats make the formed shape "beat"
+    const audio = audioRef.current;
+    uniforms.uTwinkle.value = TWINKLE + (audio ? audio.bass * BASS_TWINKLE : 0);
+    pointsRef.current.scale.setScalar(1 + (audio && showShape ? audio.beat * BEAT_SCALE : 0));
+
+    // Point sizes are given in world units
+    const camera = state.camera as THREE.PerspectiveCamera;
+    state.gl.getDrawingBufferSize(drawingBufferSize);
+    uniforms.uPixelScale.value = drawingBufferSize.y / (2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2));
+
     // Dim stars when focusing on a photo
-    const material = meshRef.current.material as THREE.MeshStandardMaterial;
     if (gestureState === GestureState.FOCUSED) {
-        material.opacity = THREE.MathUtils.lerp(material.opacity, 0.2, 0.1);
+        const dimmed = THREE.MathUtils.lerp(1, 0.2, getFocusLevel(analogRef.current));
+        uniforms.uOpacity.value = THREE.MathUtils.lerp(uniforms.uOpacity.value, dimmed, 0.1);
     } else {
-        material.opacity = THREE.MathUtils.lerp(material.opacity, 1, 0.1);
+        uniforms.uOpacity.value = THREE.MathUtils.lerp(uniforms.uOpacity.value, 1, 0.1);
     }
 
     // 3. INTERNAL ANIMATION (Spin/Sway)
-    // This rotation applies to the inner mesh, combining with the outer group tilt
+    // This rotation applies to the inner points, combining with the outer group tilt
     if (gestureState === GestureState.ROTATING) {
-         // Fast spin
-         meshRef.current.rotation.y += delta * 2; 
+         // Fast spin (hand roll steers direction & speed)
+         pointsRef.current.rotation.y += delta * getSpinSpeed(analogRef.current);
     } else if (gestureState === GestureState.FORMED) {
          // Gentle sway
          const targetSway = Math.sin(time * 0.5) * 0.2;
-         meshRef.current.rotation.y = THREE.MathUtils.lerp(meshRef.current.rotation.y, targetSway, 0.05);
+         pointsRef.current.rotation.y = THREE.MathUtils.lerp(pointsRef.current.rotation.y, targetSway, 0.05);
     } else {
          // Slow drift (Dispersed / Focused)
-         meshRef.current.rotation.y += delta * 0.1; 
+         pointsRef.current.rotation.y += delta * 0.1;
     }
-
-    meshRef.current.instanceMatrix.needsUpdate = true;
   });
 
   return (
     <group ref={groupRef}>
-      <instancedMesh ref={meshRef} args={[undefined, undefined, COUNT]}>
-        <dodecahedronGeometry args={[0.2, 0]} /> 
-        <meshStandardMaterial 
-          transparent
-          opacity={1}
-          vertexColors
-          emissive="#ffffff" 
-          emissiveIntensity={1} 
-          roughness={0.1} 
-        />
-        <instancedBufferAttribute attach="attributes-color" args={[colors, 3]} />
-      </instancedMesh>
-      
-      <pointLight 
-        ref={lightRef} 
-        position={[0, 0, 10]} 
-        intensity={20} 
-        color="#38bdf8" 
+      <group ref={twistRef}>
+        <points ref={pointsRef} geometry={geometry} material={material} frustumCulled={false} visible={simulation !== null} />
+      </group>
+
+      <pointLight
+        ref={lightRef}
+        position={[0, 0, 10]}
+        intensity={20}
+        color={theme.pointLight}
       />
     </group>
   );
 };
 
-export default HeartParticles;
\ No newline at end of file
+export default HeartParticles;
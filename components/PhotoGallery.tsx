@@ -1,35 +1,125 @@
 import React, { useMemo, useRef, useState, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { GestureState } from '../types';
-import { randomInHeart, randomInSphere } from '../utils/math';
+import { AnalogParams, AudioLevels, FocusRequest, GestureState, PhotoLayout, PhotoRecord, ShapeSelection } from '../types';
+import { randomInSphere } from '../utils/math';
+import { createShapeSampler } from '../utils/shapes';
+import { TwoHandSceneState, applyTwoHandTransform } from '../utils/twoHandGestures';
+import { getFocusLevel, getSpinSpeed, getViewerZoom } from '../utils/analogGestures';
+import { arrangePhotos } from '../utils/photoLayout';
+import { CLOUD_VIDEO_FPS, ThrottledVideoTexture, VideoPlaybackLimiter, createVideoPlaybackLimiter } from '../utils/videoPlayback';
 
 interface PhotoGalleryProps {
   gestureState: GestureState;
-  images: string[];
+  photos: PhotoRecord[];
+  shape: ShapeSelection; // Formed photo positions are sampled from the same shape as the particles
+  accentColor: string;   // Border of the focused photo (theme accent)
+  dispersedRadius: number; // Photos float within this radius while dispersed
+  layout: PhotoLayout;
   handPosRef: React.MutableRefObject<THREE.Vector3>;
+  twoHandRef: React.MutableRefObject<TwoHandSceneState>;
+  analogRef: React.MutableRefObject<AnalogParams | null>;
   visible: boolean; // New prop to control visibility
+  focusRequest?: FocusRequest | null; // Explicit photo to focus instead of the nearest one
+  onPhotoSelect?: (index: number) => void; // Enables click-to-focus (mouse / touch mode)
+  onFocusChange?: (index: number | null) => void; // Photo shown in the viewer, for the details overlay
+  audioRef: React.MutableRefObject<AudioLevels | null>; // With music, transitions wait for the next beat
 }
 
+// Favourites are scored this many units "closer" when picking the photo to focus
+const FAVOURITE_BONUS = 15;
+
+// Longest a transition waits for a beat (seconds), for quiet passages
+const MAX_BEAT_WAIT = 1;
+
+// World position a focused photo flies to (SceneEffects keeps it in focus)
+const FOCUS_TARGET = new THREE.Vector3(0, 0, 20);
+// Share of the view the whole photo fills at zoom 1, leaving room for the details overlay
+const VIEWER_FIT = 0.8;
+
+// Visible width & height (world units) of a plane facing the camera through `point`
+const viewSizeAt = (camera: THREE.Camera, point: THREE.Vector3) => {
+  const perspective = camera as THREE.PerspectiveCamera;
+  const height = 2 * camera.position.distanceTo(point) * Math.tan(THREE.MathUtils.degToRad(perspective.fov / 2));
+  return { width: height * perspective.aspect, height };
+};
+
 const PhotoFrame: React.FC<{ 
-  url: string; 
+  photo: PhotoRecord; 
   targetPos: THREE.Vector3; 
   isFocused: boolean;
   gestureState: GestureState;
   parentGroupRef: React.MutableRefObject<THREE.Group | null>;
+  handPosRef: React.MutableRefObject<THREE.Vector3>;
+  analogRef: React.MutableRefObject<AnalogParams | null>;
   visible: boolean;
-}> = ({ url, targetPos, isFocused, gestureState, parentGroupRef, visible }) => {
+  accentColor: string;
+  videoLimiter: VideoPlaybackLimiter;
+  onSelect?: () => void;
+}> = ({ photo, targetPos, isFocused, gestureState, parentGroupRef, handPosRef, analogRef, visible, accentColor, videoLimiter, onSelect }) => {
   const meshRef = useRef<THREE.Mesh>(null);
-  const [aspect, setAspect] = useState(1);
+  const aspect = photo.width / Math.max(photo.height, 1);
   
   const texture = useMemo(() => {
       const loader = new THREE.TextureLoader();
-      return loader.load(url, (tex) => {
-          if (tex.image) {
-              setAspect(tex.image.width / tex.image.height);
+      return loader.load(photo.url);
+  }, [photo.url]);
+
+  // The full-resolution file is only decoded while the photo is in the viewer, and freed right after
+  const [fullTexture, setFullTexture] = useState<THREE.Texture | null>(null);
+  useEffect(() => {
+      if (!isFocused || photo.kind === 'video' || photo.originalUrl === photo.url) return;
+      let loaded: THREE.Texture | null = null;
+      let cancelled = false;
+
+      new THREE.TextureLoader().load(photo.originalUrl, (full) => {
+          if (cancelled) {
+              full.dispose();
+              return;
           }
-      });
-  }, [url]);
+          loaded = full;
+          setFullTexture(full);
+      }, undefined, (e) => console.warn("Could not load the full-resolution photo", e));
+
+      return () => {
+          cancelled = true;
+          loaded?.dispose();
+          setFullTexture(null);
+      };
+  }, [isFocused, photo.url, photo.originalUrl]);
+
+  // Videos only get an element (and a decoder) while they hold a playback slot, the poster shows otherwise
+  const [videoSlot, setVideoSlot] = useState(false);
+  const [videoTexture, setVideoTexture] = useState<ThrottledVideoTexture | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const soundBlocked = useRef(false); // Autoplay policy: no sound before the user has interacted
+  useEffect(() => {
+      if (!videoSlot) return;
+      const video = document.createElement('video');
+      video.muted = true;
+      video.loop = true;
+      video.playsInline = true;
+      video.src = photo.originalUrl;
+      const clip = new ThrottledVideoTexture(video);
+      video.onloadeddata = () => setVideoTexture(clip);
+      videoRef.current = video;
+
+      return () => {
+          videoRef.current = null;
+          video.onloadeddata = null;
+          video.pause();
+          video.removeAttribute('src');
+          video.load();
+          clip.dispose();
+          setVideoTexture(null);
+      };
+  }, [videoSlot, photo.originalUrl]);
+
+  useEffect(() => () => videoLimiter.release(photo.id), [photo.id]);
+
+  // Viewer pan (world units), dragged along by the hand while the photo is zoomed in
+  const pan = useRef(new THREE.Vector2());
+  const lastHandPos = useRef<THREE.Vector3 | null>(null);
 
   const position = useRef(new THREE.Vector3(
       (Math.random() - 0.5) * 50, 
@@ -42,6 +132,8 @@ const PhotoFrame: React.FC<{
 
     const time = state.clock.getElapsedTime();
     const damping = 0.08;
+    // Pinch closure: fully closed = full focus, opening it eases everything back
+    const focusLevel = getFocusLevel(analogRef.current);
 
     // Calculate Destination
     let dest = new THREE.Vector3().copy(targetPos);
@@ -52,20 +144,36 @@ const PhotoFrame: React.FC<{
     const parentGroup = parentGroupRef.current;
 
     if (isFocused && parentGroup) {
-        // ROBUST FOCUS LOGIC with Nested Rotation:
-        // Target: World Coordinate (0, 0, 20)
-        // Transform World Target -> Local Space of the rotating parent
-        
-        const targetWorldPos = new THREE.Vector3(0, 0, 20);
-        const localDest = parentGroup.worldToLocal(targetWorldPos.clone());
-        
-        dest.copy(localDest);
-        targetScale = 8;
+        // VIEWER: the whole photo fits the view at zoom 1, opening the pinch zooms in
+        // and moving the hand drags the zoomed photo around, within its edges
+        const view = viewSizeAt(state.camera, FOCUS_TARGET);
+        const zoom = getViewerZoom(analogRef.current);
+        targetScale = Math.min(view.height, view.width / aspect) * VIEWER_FIT * zoom;
+
+        const hand = handPosRef.current;
+        if (lastHandPos.current) {
+            pan.current.x += (hand.x - lastHandPos.current.x) * zoom;
+            pan.current.y += (hand.y - lastHandPos.current.y) * zoom;
+        } else {
+            lastHandPos.current = new THREE.Vector3();
+            pan.current.set(0, 0);
+        }
+        lastHandPos.current.copy(hand);
+
+        const overflowX = Math.max(0, (targetScale * aspect - view.width) / 2);
+        const overflowY = Math.max(0, (targetScale - view.height) / 2);
+        pan.current.x = THREE.MathUtils.clamp(pan.current.x, -overflowX, overflowX);
+        pan.current.y = THREE.MathUtils.clamp(pan.current.y, -overflowY, overflowY);
+
+        // Target in world space -> local space of the rotating parent
+        const targetWorldPos = new THREE.Vector3(pan.current.x, pan.current.y, 0).add(FOCUS_TARGET);
+        dest.copy(parentGroup.worldToLocal(targetWorldPos));
         targetRot.set(0, 0, 0); 
     } else {
+        lastHandPos.current = null;
         if (gestureState === GestureState.FOCUSED) {
-            dest.z -= 40; 
-            targetScale = 0.5;
+            dest.z -= 40 * focusLevel; 
+            targetScale = THREE.MathUtils.lerp(1, 0.5, focusLevel);
         } else if (gestureState === GestureState.FORMED || gestureState === GestureState.ROTATING) {
             targetScale = 1.2;
             targetRot.set(0, time * 0.2, 0);
@@ -106,6 +214,30 @@ const PhotoFrame: React.FC<{
         }
     }
 
+    // Video playback: muted & at a low frame rate in the cloud, with sound while focused.
+    // Only one video plays behind a focused photo: the focused one
+    if (photo.kind === 'video') {
+        let slot = false;
+        if (visible && (isFocused || gestureState !== GestureState.FOCUSED)) {
+            const distance = meshRef.current.getWorldPosition(new THREE.Vector3()).distanceTo(state.camera.position);
+            slot = videoLimiter.request(photo.id, isFocused ? -Infinity : distance) || isFocused;
+        } else {
+            videoLimiter.release(photo.id);
+        }
+        if (slot !== videoSlot) setVideoSlot(slot);
+
+        const video = videoRef.current;
+        if (video) {
+            video.muted = !isFocused || soundBlocked.current;
+            if (video.paused && !video.error) {
+                video.play().catch((e) => {
+                    if (e.name === 'NotAllowedError' && !video.muted) soundBlocked.current = true;
+                });
+            }
+        }
+        if (videoTexture) videoTexture.maxFps = isFocused ? Infinity : CLOUD_VIDEO_FPS;
+    }
+
     // Opacity & Visibility Control
     const mat = meshRef.current.material as THREE.MeshBasicMaterial;
     let targetOpacity = 0.9;
@@ -113,7 +245,7 @@ const PhotoFrame: React.FC<{
     if (!visible) {
         targetOpacity = 0; // Hide if not enabled
     } else if (gestureState === GestureState.FOCUSED && !isFocused) {
-        targetOpacity = 0.1; // Dim background photos if focused
+        targetOpacity = THREE.MathUtils.lerp(0.9, 0.1, focusLevel); // Dim background photos if focused
     }
 
     mat.opacity = THREE.MathUtils.lerp(mat.opacity, targetOpacity, damping);
@@ -122,40 +254,105 @@ const PhotoFrame: React.FC<{
   });
 
   return (
-    <mesh ref={meshRef} position={position.current}>
+    <mesh 
+      ref={meshRef} 
+      position={position.current}
+      onClick={onSelect && visible ? (e) => { e.stopPropagation(); onSelect(); } : undefined}
+    >
       <planeGeometry args={[1, 1]} />
       <meshBasicMaterial 
-        map={texture} 
+        map={videoTexture ?? fullTexture ?? texture} 
         transparent 
         side={THREE.DoubleSide} 
         opacity={0} 
-        depthWrite={!isFocused && visible} // Disable depth write when hidden or focused background
+        depthWrite={visible} // No depth when hidden; the focused photo writes it so depth of field keeps it sharp
         depthTest={true}
       />
       {isFocused && visible && (
           <lineSegments>
               <edgesGeometry args={[new THREE.PlaneGeometry(1, 1)]} />
-              <lineBasicMaterial color="#22d3ee" linewidth={2} transparent opacity={0.8} />
+              <lineBasicMaterial color={accentColor} linewidth={2} transparent opacity={0.8} />
           </lineSegments>
       )}
     </mesh>
   );
 };
 
-const PhotoGallery: React.FC<PhotoGalleryProps> = ({ gestureState, images, handPosRef, visible }) => {
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({ gestureState: requestedState, photos, shape, accentColor, dispersedRadius, layout, handPosRef, twoHandRef, analogRef, visible, focusRequest: requestedFocus, onPhotoSelect, onFocusChange, audioRef }) => {
+  // Gesture & focus changes reach the photos on the next beat when music is playing
+  const [synced, setSynced] = useState({ gestureState: requestedState, focusRequest: requestedFocus });
+  const { gestureState, focusRequest } = synced;
+  const pendingSince = useRef<number | null>(null);
+  const pendingBeat = useRef(0);
+
+  useFrame((state) => {
+    if (requestedState === gestureState && requestedFocus === focusRequest) {
+        pendingSince.current = null;
+        return;
+    }
+    const audio = audioRef.current;
+    const time = state.clock.getElapsedTime();
+    if (pendingSince.current === null) {
+        pendingSince.current = time;
+        pendingBeat.current = audio ? audio.beatCount : 0;
+    }
+    if (!audio || audio.beatCount !== pendingBeat.current || time - pendingSince.current > MAX_BEAT_WAIT) {
+        setSynced({ gestureState: requestedState, focusRequest: requestedFocus });
+    }
+  });
+
+  const videoLimiter = useMemo(() => createVideoPlaybackLimiter(), []);
+
   const outerGroupRef = useRef<THREE.Group>(null);
+  const twistGroupRef = useRef<THREE.Group>(null);
   const innerGroupRef = useRef<THREE.Group>(null);
   
+  // Scattered positions are keyed by photo id so reordering / deleting doesn't reshuffle the cloud.
+  // Formed positions are re-sampled when the shape changes; the frames lerp over to them.
+  // Arranged layouts are recomputed as a whole instead (see utils/photoLayout.ts).
+  const dispersedCache = useRef(new Map<string, THREE.Vector3>());
+  const formedCache = useRef(new Map<string, THREE.Vector3>());
+  const formedShape = useRef(shape);
+  const dispersedRadiusRef = useRef(dispersedRadius);
+  // Positions only depend on these, not on captions or favourites
+  const layoutKey = photos.map(p => `${p.id}:${p.takenAt}:${p.album}`).join('|');
   const positions = useMemo(() => {
-    return images.map(() => ({
-        dispersed: randomInSphere(30),
-        formed: randomInHeart(0.6),
-    }));
-  }, [images]);
+    if (layout !== 'scatter') return arrangePhotos(layout, photos, shape, dispersedRadius);
+
+    if (formedShape.current !== shape) {
+        formedShape.current = shape;
+        formedCache.current.clear();
+    }
+    if (dispersedRadiusRef.current !== dispersedRadius) {
+        dispersedRadiusRef.current = dispersedRadius;
+        dispersedCache.current.clear();
+    }
+    const sampleFormed = createShapeSampler(shape);
+    const ids = new Set(photos.map(p => p.id));
+
+    [dispersedCache.current, formedCache.current].forEach(cache => {
+        cache.forEach((_, id) => { if (!ids.has(id)) cache.delete(id); });
+    });
+
+    return photos.map(photo => {
+        let dispersed = dispersedCache.current.get(photo.id);
+        if (!dispersed) {
+            dispersed = randomInSphere(dispersedRadius);
+            dispersedCache.current.set(photo.id, dispersed);
+        }
+        let formed = formedCache.current.get(photo.id);
+        if (!formed) {
+            formed = sampleFormed();
+            formedCache.current.set(photo.id, formed);
+        }
+        return { dispersed, formed };
+    });
+  }, [layoutKey, layout, shape, dispersedRadius]);
 
   const [activeIndex, setActiveIndex] = useState(0);
-  const [viewCounts, setViewCounts] = useState<Record<number, number>>({});
+  const [viewCounts, setViewCounts] = useState<Record<string, number>>({});
   const previousState = useRef(gestureState);
+  const handledRequestId = useRef<number | null>(null);
 
   useFrame((state, delta) => {
     // 1. OUTER GROUP: Position & Tilt (Parallax)
@@ -174,10 +371,15 @@ const PhotoGallery: React.FC<PhotoGalleryProps> = ({ gestureState, images, handP
         outerGroupRef.current.rotation.y = THREE.MathUtils.lerp(outerGroupRef.current.rotation.y, targetRotY, 0.05);
     }
 
-    // 2. INNER GROUP: Continuous Rotation (V-Sign)
+    // 2. TWIST GROUP: Scale & twist while the heart is held with both hands
+    if (twistGroupRef.current) {
+        applyTwoHandTransform(twistGroupRef.current, twoHandRef.current);
+    }
+
+    // 3. INNER GROUP: Continuous Rotation (V-Sign)
     if (innerGroupRef.current) {
         if (gestureState === GestureState.ROTATING) {
-            innerGroupRef.current.rotation.y += delta * 2.0; // Fast spin
+            innerGroupRef.current.rotation.y += delta * getSpinSpeed(analogRef.current); // Fast spin, steered by hand roll
         } else if (gestureState === GestureState.FORMED) {
             const time = state.clock.getElapsedTime();
             innerGroupRef.current.rotation.y = THREE.MathUtils.lerp(innerGroupRef.current.rotation.y, Math.sin(time * 0.5) * 0.2, 0.05);
@@ -190,8 +392,25 @@ const PhotoGallery: React.FC<PhotoGalleryProps> = ({ gestureState, images, handP
 
   // Nearest Photo Calculation
   useEffect(() => {
-    if (gestureState === GestureState.FOCUSED && previousState.current !== GestureState.FOCUSED) {
-        if (images.length > 0 && innerGroupRef.current) {
+    const pendingRequest = focusRequest && focusRequest.id !== handledRequestId.current ? focusRequest : null;
+
+    if (pendingRequest) {
+        // Explicitly requested photo wins over the nearest one
+        handledRequestId.current = pendingRequest.id;
+        const requestedIndex = 'index' in pendingRequest
+            ? pendingRequest.index
+            : (activeIndex + pendingRequest.step + photos.length) % Math.max(photos.length, 1);
+
+        if (gestureState === GestureState.FOCUSED && requestedIndex < photos.length) {
+            const id = photos[requestedIndex].id;
+            setActiveIndex(requestedIndex);
+            setViewCounts(prev => ({
+                ...prev,
+                [id]: (prev[id] || 0) + 1
+            }));
+        }
+    } else if (gestureState === GestureState.FOCUSED && previousState.current !== GestureState.FOCUSED) {
+        if (photos.length > 0 && innerGroupRef.current) {
             // Check based on previous state locations
             const sourceLocalPositions = (previousState.current === GestureState.FORMED || previousState.current === GestureState.ROTATING)
                 ? positions.map(p => p.formed)
@@ -214,8 +433,9 @@ const PhotoGallery: React.FC<PhotoGalleryProps> = ({ gestureState, images, handP
                 
                 // Score = Distance + Penalty for View Count
                 // 500 units penalty ensures we cycle through all photos before repeating
-                const count = viewCounts[idx] || 0;
-                const score = distance + (count * 500); 
+                const photo = photos[idx];
+                const count = viewCounts[photo.id] || 0;
+                const score = distance + (count * 500) - (photo.favourite ? FAVOURITE_BONUS : 0);
                 
                 if (score < minScore) {
                     minScore = score;
@@ -226,33 +446,46 @@ const PhotoGallery: React.FC<PhotoGalleryProps> = ({ gestureState, images, handP
             setActiveIndex(bestIndex);
             
             // Increment view count
+            const bestId = photos[bestIndex].id;
             setViewCounts(prev => ({
                 ...prev,
-                [bestIndex]: (prev[bestIndex] || 0) + 1
+                [bestId]: (prev[bestId] || 0) + 1
             }));
         }
     }
     previousState.current = gestureState;
-  }, [gestureState, images.length, positions, viewCounts]);
+  }, [gestureState, photos, positions, viewCounts, focusRequest, activeIndex]);
+
+  const focusedIndex = gestureState === GestureState.FOCUSED && activeIndex < photos.length ? activeIndex : null;
+  useEffect(() => {
+    onFocusChange?.(focusedIndex);
+  }, [focusedIndex]);
 
   return (
     <group ref={outerGroupRef}>
-      <group ref={innerGroupRef}>
-        {images.map((img, i) => (
-            <PhotoFrame 
-                key={i} 
-                url={img} 
-                targetPos={
-                    (gestureState === GestureState.FORMED || gestureState === GestureState.ROTATING)
-                    ? positions[i].formed 
-                    : positions[i].dispersed
-                }
-                isFocused={gestureState === GestureState.FOCUSED && i === activeIndex}
-                gestureState={gestureState}
-                parentGroupRef={innerGroupRef}
-                visible={visible}
-            />
-        ))}
+      <group ref={twistGroupRef}>
+        <group ref={innerGroupRef}>
+          {photos.map((photo, i) => (
+              <PhotoFrame 
+                  key={photo.id} 
+                  photo={photo} 
+                  targetPos={
+                      (gestureState === GestureState.FORMED || gestureState === GestureState.ROTATING)
+                      ? positions[i].formed 
+                      : positions[i].dispersed
+                  }
+                  isFocused={i === focusedIndex}
+                  gestureState={gestureState}
+                  parentGroupRef={innerGroupRef}
+                  handPosRef={handPosRef}
+                  analogRef={analogRef}
+                  visible={visible}
+                  accentColor={accentColor}
+                  videoLimiter={videoLimiter}
+                  onSelect={onPhotoSelect ? () => onPhotoSelect(i) : undefined}
+              />
+          ))}
+        </group>
       </group>
     </group>
   );
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { PhotoRecord } from '../types';
+
+interface PhotoManagerProps {
+  photos: PhotoRecord[];
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onReorder: (fromIndex: number, toIndex: number) => void;
+  onToggleFavourite: (id: string) => void;
+  onCaptionChange: (id: string, caption: string) => void;
+  onAlbumChange: (id: string, album: string) => void;
+  onSortByDate: () => void; // Library order = EXIF capture date
+  onClose: () => void;
+}
+
+// Caption / album input that only commits on blur / Enter, so we don't write to IndexedDB per keystroke
+const FieldInput: React.FC<{ value: string; placeholder: string; onCommit: (value: string) => void }> = ({ value, placeholder, onCommit }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+      className="w-full px-1 py-0.5 bg-black/40 border border-white/10 rounded text-[11px] text-white placeholder-gray-500 focus:outline-none focus:border-[color:var(--accent-soft)]"
+    />
+  );
+};
+
+const PhotoManager: React.FC<PhotoManagerProps> = ({ photos, onDelete, onClear, onReorder, onToggleFavourite, onCaptionChange, onAlbumChange, onSortByDate, onClose }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onReorder(dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleClear = () => {
+    if (window.confirm(`Delete all ${photos.length} photos? This cannot be undone.`)) {
+      onClear();
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="w-full max-w-3xl max-h-[80vh] flex flex-col p-6 bg-white/5 border border-[color:var(--accent-faint)] rounded-lg text-white">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold">Photos ({photos.length})</h2>
+          <div className="flex items-center gap-4">
+            {photos.length > 1 && (
+              <button onClick={onSortByDate} className="text-gray-300 hover:text-white text-sm">Sort by Date</button>
+            )}
+            {photos.length > 0 && (
+              <button onClick={handleClear} className="text-red-400 hover:text-red-300 text-sm">Clear All</button>
+            )}
+            <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">Close</button>
+          </div>
+        </div>
+        <p className="mt-1 text-xs text-gray-400">Drag to reorder • ★ favourites are picked first when grabbing a photo • albums group photos in the album layout</p>
+
+        {photos.length === 0 ? (
+          <p className="mt-6 text-sm text-gray-400">No photos yet. Use "Upload Photos" to add some.</p>
+        ) : (
+          <div className="mt-4 grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3 overflow-y-auto pr-1">
+            {photos.map((photo, index) => (
+              <div
+                key={photo.id}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => { e.preventDefault(); setDropIndex(index); }}
+                onDragLeave={() => setDropIndex(i => i === index ? null : i)}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+                className={`relative group rounded overflow-hidden border transition-colors cursor-move ${dropIndex === index && dragIndex !== index ? 'border-[color:var(--accent)]' : 'border-white/10'} ${dragIndex === index ? 'opacity-40' : ''}`}
+              >
+                <img src={photo.thumbnailUrl} alt={photo.caption} draggable={false} className="w-full aspect-square object-cover" />
+
+                <button
+                  onClick={() => onToggleFavourite(photo.id)}
+                  title={photo.favourite ? "Remove favourite" : "Mark as favourite"}
+                  className={`absolute top-1 left-1 w-6 h-6 rounded bg-black/60 text-sm ${photo.favourite ? 'text-yellow-300' : 'text-gray-400 hover:text-white'}`}
+                >
+                  {photo.favourite ? '★' : '☆'}
+                </button>
+                <button
+                  onClick={() => onDelete(photo.id)}
+                  title="Delete photo"
+                  className="absolute top-1 right-1 w-6 h-6 rounded bg-black/60 text-sm text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  ×
+                </button>
+
+                {photo.kind === 'video' && (
+                  <span title="Video" className="absolute top-8 left-1 w-6 h-6 rounded bg-black/60 text-[10px] leading-6 text-center text-gray-300">
+                    ▶
+                  </span>
+                )}
+
+                {photo.takenAt !== null && (
+                  <span className="absolute top-1 left-8 px-1 leading-6 rounded bg-black/60 text-[10px] text-gray-300">
+                    {new Date(photo.takenAt).toLocaleDateString()}
+                  </span>
+                )}
+
+                <div className="p-1 bg-black/40 space-y-1">
+                  <FieldInput value={photo.caption} placeholder="Add caption" onCommit={(caption) => onCaptionChange(photo.id, caption)} />
+                  <FieldInput value={photo.album} placeholder="Album / tag" onCommit={(album) => onAlbumChange(photo.id, album)} />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PhotoManager;
\ No newline at end of file
@@ -0,0 +1,23 @@
+import React from 'react';
+import { PhotoRecord } from '../types';
+
+interface PhotoViewerOverlayProps {
+  photo: PhotoRecord;
+  index: number; // Position in the gallery, 0-based
+  total: number;
+  hint?: string; // How to zoom & pan with the current input
+}
+
+// Caption, capture date and position of the photo in the viewer (see PhotoFrame)
+const PhotoViewerOverlay: React.FC<PhotoViewerOverlayProps> = ({ photo, index, total, hint }) => (
+  <div className="absolute bottom-16 left-1/2 -translate-x-1/2 z-20 max-w-md px-4 py-2 bg-black/50 backdrop-blur-md rounded-lg border border-[color:var(--accent-faint)] text-center text-white pointer-events-none select-none space-y-1">
+    {photo.caption && <p className="text-sm">{photo.caption}</p>}
+    <p className="text-xs font-mono text-[color:var(--accent-text)]">
+      {index + 1} / {total}
+      {photo.takenAt !== null && ` • ${new Date(photo.takenAt).toLocaleDateString()}`}
+    </p>
+    {hint && <p className="text-[10px] text-gray-400">{hint}</p>}
+  </div>
+);
+
+export default PhotoViewerOverlay;
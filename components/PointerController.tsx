@@ -0,0 +1,138 @@
+import React, { useEffect, useRef } from 'react';
+import { GestureState } from '../types';
+
+interface PointerControllerProps {
+  onGestureChange: (state: GestureState) => void;
+  onHandMove: (x: number, y: number) => void;
+  onSwitchToCamera: () => void;
+}
+
+const HOLD_TO_FORM_MS = 250;
+
+// Drives the same gesture contract as VisionController without a webcam:
+// - Pointer position      -> hand position
+// - Press & hold          -> Fist (Form Heart)
+// - Two fingers / hold R  -> V-Sign (Rotate)
+// - Click photo           -> Pinch (Focus), handled by PhotoGallery
+// - Esc                   -> Open Hand
+const PointerController: React.FC<PointerControllerProps> = ({ onGestureChange, onHandMove, onSwitchToCamera }) => {
+  // Listeners are attached once, so read the latest callbacks through a ref
+  const callbacksRef = useRef({ onGestureChange, onHandMove });
+  callbacksRef.current = { onGestureChange, onHandMove };
+
+  useEffect(() => {
+    const activePointers = new Set<number>();
+    let holdTimer: ReturnType<typeof setTimeout> | null = null;
+    let holding = false;
+    let rotating = false;
+
+    const emit = (state: GestureState) => callbacksRef.current.onGestureChange(state);
+
+    const clearHold = () => {
+      if (holdTimer) clearTimeout(holdTimer);
+      holdTimer = null;
+    };
+
+    // Only react to presses on the 3D scene, not on the UI overlay
+    const isScene = (target: EventTarget | null) => target instanceof HTMLCanvasElement;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      // VisionController reports mirrored camera coordinates, so mirror X the same way
+      callbacksRef.current.onHandMove(1 - e.clientX / window.innerWidth, e.clientY / window.innerHeight);
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!isScene(e.target)) return;
+      activePointers.add(e.pointerId);
+
+      if (activePointers.size >= 2) {
+        clearHold();
+        holding = false;
+        rotating = true;
+        emit(GestureState.ROTATING);
+        return;
+      }
+
+      clearHold();
+      holdTimer = setTimeout(() => {
+        holding = true;
+        emit(GestureState.FORMED);
+      }, HOLD_TO_FORM_MS);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      activePointers.delete(e.pointerId);
+      clearHold();
+
+      if (rotating && activePointers.size < 2) {
+        rotating = false;
+        emit(GestureState.DISPERSED);
+      } else if (holding && activePointers.size === 0) {
+        holding = false;
+        emit(GestureState.DISPERSED);
+      }
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.repeat) return;
+
+      if (e.key === 'r' || e.key === 'R') {
+        rotating = true;
+        emit(GestureState.ROTATING);
+      } else if (e.key === ' ') {
+        holding = true;
+        emit(GestureState.FORMED);
+      } else if (e.key === 'Escape') {
+        holding = false;
+        rotating = false;
+        emit(GestureState.DISPERSED);
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if ((e.key === 'r' || e.key === 'R') && rotating) {
+        rotating = false;
+        emit(GestureState.DISPERSED);
+      } else if (e.key === ' ' && holding) {
+        holding = false;
+        emit(GestureState.DISPERSED);
+      }
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+
+    return () => {
+      clearHold();
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  return (
+    <div className="absolute top-4 right-4 w-48 p-3 bg-black/50 rounded-lg border border-white/20 z-50 shadow-lg text-xs text-gray-300 space-y-1">
+      <p className="text-white font-semibold">Mouse / Touch Mode</p>
+      <p>Move → Fly</p>
+      <p>Hold → Form Heart</p>
+      <p>Two fingers / Hold R → Rotate</p>
+      <p>Click photo → Focus • Esc → Release</p>
+      <button
+        onClick={onSwitchToCamera}
+        className="mt-2 px-3 py-1 bg-white/10 hover:bg-white/20 border border-white/30 rounded text-white transition-colors"
+      >
+        Use Camera
+      </button>
+    </div>
+  );
+};
+
+export default PointerController;
\ No newline at end of file
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { RemoteControlSettings } from '../types';
+import { BridgeStatus } from '../utils/remoteControl';
+
+interface RemoteControlOptionsProps {
+  settings: RemoteControlSettings;
+  bridgeStatus: BridgeStatus | null; // null while the bridge is off
+  bridgeError: string | null;
+  onChange: (settings: RemoteControlSettings) => void;
+}
+
+// Link to the control page, and the optional bridge for other devices, scripts & OSC (npm run control-bridge)
+const RemoteControlOptions: React.FC<RemoteControlOptionsProps> = ({ settings, bridgeStatus, bridgeError, onChange }) => {
+  // Applied when the bridge is switched on, not on every keystroke
+  const [bridgeUrl, setBridgeUrl] = useState(settings.bridgeUrl);
+
+  return (
+    <div className="mb-4 space-y-1 text-xs text-gray-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <a
+          href="./control.html"
+          target="_blank"
+          rel="noreferrer"
+          className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md"
+        >
+          Control Page
+        </a>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={settings.bridgeEnabled}
+            onChange={(e) => onChange({ bridgeEnabled: e.target.checked, bridgeUrl: bridgeUrl.trim() || settings.bridgeUrl })}
+          />
+          Bridge
+        </label>
+        <input
+          value={bridgeUrl}
+          onChange={(e) => setBridgeUrl(e.target.value)}
+          disabled={settings.bridgeEnabled}
+          placeholder="ws://host:8788/?token=…"
+          className="w-40 px-2 py-1 bg-black/40 border border-white/20 rounded text-xs text-white focus:outline-none focus:border-[color:var(--accent-soft)]"
+        />
+        {bridgeStatus === 'connected' && <span className="text-gray-400">Connected</span>}
+      </div>
+      {bridgeStatus === 'closed' && bridgeError && <p className="text-yellow-300">{bridgeError}</p>}
+    </div>
+  );
+};
+
+export default RemoteControlOptions;
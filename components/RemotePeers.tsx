@@ -0,0 +1,81 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { AnalogParams, AudioLevels, SessionPeer, ShapeSelection, Theme } from '../types';
+import { createTwoHandSceneState } from '../utils/twoHandGestures';
+import HeartParticles from './HeartParticles';
+
+interface RemotePeersProps {
+  peers: SessionPeer[];
+  peerHandsRef: React.MutableRefObject<Map<string, THREE.Vector3>>; // World positions, updated by the session
+  theme: Theme;
+  shape: ShapeSelection;   // The session's shared shape
+  dispersedRadius: number;
+  audioRef: React.MutableRefObject<AudioLevels | null>;
+  onParticlesUnavailable?: (message: string | null) => void;
+}
+
+const PEER_PARTICLE_COUNT = 5000;
+const CURSOR_RADIUS = 0.5;
+const CURSOR_SMOOTHING = 8; // Hand updates arrive ~20 times a second, ease between them
+
+interface RemotePeerProps extends Omit<RemotePeersProps, 'peers'> {
+  peer: SessionPeer;
+}
+
+const RemotePeer: React.FC<RemotePeerProps> = ({ peer, peerHandsRef, theme, shape, dispersedRadius, audioRef, onParticlesUnavailable }) => {
+  const cursorRef = useRef<THREE.Mesh>(null);
+  const handPosRef = useRef(new THREE.Vector3());
+  // Remote peers only send one hand and no analog input
+  const twoHandRef = useRef(createTwoHandSceneState());
+  const analogRef = useRef<AnalogParams | null>(null);
+  const handSeenAtRef = useRef(-Infinity);
+
+  // The peer's particles in their own colour, with the local glow & lights
+  const peerTheme = useMemo<Theme>(() => ({
+    ...theme,
+    palette: [{ color: peer.color, weight: 1 }, { color: '#ffffff', weight: 0.2 }],
+    pointLight: peer.color,
+  }), [theme, peer.color]);
+
+  useFrame((_, delta) => {
+    const target = peerHandsRef.current.get(peer.id);
+    if (!target) return;
+    handPosRef.current.copy(target);
+    cursorRef.current?.position.lerp(target, Math.min(1, delta * CURSOR_SMOOTHING));
+  });
+
+  return (
+    <group>
+      <mesh ref={cursorRef}>
+        <sphereGeometry args={[CURSOR_RADIUS, 16, 16]} />
+        <meshBasicMaterial color={peer.color} transparent opacity={0.8} toneMapped={false} />
+      </mesh>
+      {peer.contributed && (
+        <HeartParticles
+          gestureState={peer.gesture}
+          shape={shape}
+          count={PEER_PARTICLE_COUNT}
+          dispersedRadius={dispersedRadius}
+          interaction="follow"
+          handSeenAtRef={handSeenAtRef}
+          theme={peerTheme}
+          audioRef={audioRef}
+          handPosRef={handPosRef}
+          twoHandRef={twoHandRef}
+          analogRef={analogRef}
+          onUnavailable={onParticlesUnavailable}
+        />
+      )}
+    </group>
+  );
+};
+
+// Everyone else in a shared session: a hand cursor each, and their particles once they've formed the shape
+const RemotePeers: React.FC<RemotePeersProps> = ({ peers, ...props }) => (
+  <>
+    {peers.map(peer => <RemotePeer key={peer.id} peer={peer} {...props} />)}
+  </>
+);
+
+export default RemotePeers;
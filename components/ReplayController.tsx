@@ -0,0 +1,109 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DynamicGesture, GestureClassifier, GestureFrame, GestureState, HandLandmark, Handedness, LandmarkRecording } from '../types';
+import { createGesturePipeline } from '../utils/gesturePipeline';
+import { checkFixture, formatDynamicGesture } from '../utils/replayHarness';
+
+interface ReplayControllerProps {
+  recording: LandmarkRecording;
+  classifier: GestureClassifier;
+  onGestureChange: (state: GestureState) => void;
+  onHandMove: (x: number, y: number) => void;
+  onLandmarks?: (hands: HandLandmark[][], timestamp: number, handedness?: Handedness[]) => void;
+  onGestureFrame?: (frame: GestureFrame) => void;
+  onDynamicGesture?: (gesture: DynamicGesture, focused: boolean) => void;
+  onStop: () => void;
+}
+
+// Plays a recorded landmark stream in real time through the same pipeline as the camera
+const ReplayController: React.FC<ReplayControllerProps> = ({ recording, classifier, onGestureChange, onHandMove, onLandmarks, onGestureFrame, onDynamicGesture, onStop }) => {
+  const [loop, setLoop] = useState(true);
+  const [progress, setProgress] = useState(0);
+
+  const callbacksRef = useRef({ onGestureChange, onHandMove, onLandmarks, onGestureFrame, onDynamicGesture });
+  callbacksRef.current = { onGestureChange, onHandMove, onLandmarks, onGestureFrame, onDynamicGesture };
+  const loopRef = useRef(loop);
+  loopRef.current = loop;
+
+  const pipeline = useMemo(() => createGesturePipeline(classifier, {
+    onGestureChange: (state) => callbacksRef.current.onGestureChange(state),
+    onHandMove: (x, y) => callbacksRef.current.onHandMove(x, y),
+    onGestureFrame: (frame) => callbacksRef.current.onGestureFrame?.(frame),
+    onDynamicGesture: (gesture, focused) => callbacksRef.current.onDynamicGesture?.(gesture, focused),
+  }), []);
+
+  useEffect(() => {
+    pipeline.setClassifier(classifier);
+  }, [classifier]);
+
+  // Headless check against the fixture's expected gesture / swipe sequences (if it has them)
+  const fixtureCheck = useMemo(
+    () => recording.expected || recording.expectedDynamic ? checkFixture(recording, classifier) : null,
+    [recording, classifier]
+  );
+
+  useEffect(() => {
+    const frames = recording.frames;
+    const duration = frames.length > 0 ? frames[frames.length - 1].t : 0;
+    let startTime = performance.now();
+    let nextFrame = 0;
+    let request = 0;
+
+    pipeline.reset();
+
+    const tick = () => {
+      const elapsed = performance.now() - startTime;
+
+      while (nextFrame < frames.length && frames[nextFrame].t <= elapsed) {
+        const frame = frames[nextFrame];
+        callbacksRef.current.onLandmarks?.(frame.hands, frame.t, frame.handedness);
+        pipeline.process(frame.hands, frame.t, frame.handedness);
+        nextFrame++;
+      }
+      setProgress(duration > 0 ? Math.min(elapsed / duration, 1) : 1);
+
+      if (nextFrame >= frames.length) {
+        if (!loopRef.current) return;
+        startTime = performance.now();
+        nextFrame = 0;
+        pipeline.reset();
+      }
+      request = requestAnimationFrame(tick);
+    };
+
+    request = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(request);
+  }, [recording, loop]);
+
+  return (
+    <div className="absolute top-4 right-4 w-48 p-3 bg-black/50 rounded-lg border border-white/20 z-50 shadow-lg text-xs text-gray-300 space-y-2">
+      <p className="text-white font-semibold">Replay ({recording.frames.length} frames)</p>
+      <div className="h-1 bg-white/10 rounded overflow-hidden">
+        <div className="h-full bg-[color:var(--accent)]" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+      </div>
+      {fixtureCheck && (
+        <p className={fixtureCheck.passed ? 'text-green-400' : 'text-red-400'} title={[
+          `Expected: ${fixtureCheck.expected.join(' → ')}`,
+          `Actual: ${fixtureCheck.actual.join(' → ')}`,
+          ...(fixtureCheck.expectedDynamic ? [
+            `Expected swipes: ${fixtureCheck.expectedDynamic.map(formatDynamicGesture).join(' → ')}`,
+            `Actual swipes: ${fixtureCheck.actualDynamic.map(formatDynamicGesture).join(' → ')}`,
+          ] : []),
+        ].join('\n')}>
+          Fixture: {fixtureCheck.passed ? 'PASS' : 'FAIL'}
+        </p>
+      )}
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={loop} onChange={(e) => setLoop(e.target.checked)} />
+        Loop
+      </label>
+      <button
+        onClick={onStop}
+        className="px-3 py-1 bg-white/10 hover:bg-white/20 border border-white/30 rounded text-white transition-colors"
+      >
+        Stop Replay
+      </button>
+    </div>
+  );
+};
+
+export default ReplayController;
\ No newline at end of file
@@ -0,0 +1,96 @@
+import React, { useEffect } from 'react';
+import { RootState, useThree } from '@react-three/fiber';
+import { createWebmEncoder } from '../utils/videoExport';
+
+export interface OfflineRenderOptions {
+  width: number;
+  height: number;
+  fps: number;
+  duration: number; // Milliseconds
+  onFrame: (time: number) => void; // Drive the scene to `time` (ms) before the frame is drawn
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface SceneCaptureApi {
+  getCanvas: () => HTMLCanvasElement;
+  captureStill: (width: number, height: number) => Promise<Blob>;
+  renderOffline: (options: OfflineRenderOptions) => Promise<Blob>;
+}
+
+interface SceneCaptureProps {
+  apiRef: React.MutableRefObject<SceneCaptureApi | null>;
+}
+
+// Let React commit state set by the caller (and run effects) before the next frame is drawn
+const settle = () => new Promise(resolve => setTimeout(resolve, 0)).then(() => new Promise(resolve => setTimeout(resolve, 0)));
+
+// Even sizes keep the video encoder happy; the GPU caps the rest
+const clampSize = (value: number, max: number) => Math.max(2, Math.min(Math.round(value / 2) * 2, max));
+
+// Snapshot & offline render access to the canvas. Lives inside <Canvas> for the R3F store;
+// the owner must keep <Canvas dpr> at 1 while capturing or it resets the pixel ratio
+const SceneCapture: React.FC<SceneCaptureProps> = ({ apiRef }) => {
+  const get = useThree(state => state.get);
+
+  useEffect(() => {
+    // Render at exactly width x height device pixels, then restore the on-screen size
+    const withRenderSize = async <T,>(width: number, height: number, render: (state: RootState) => Promise<T>) => {
+      const state = get();
+      const { width: prevWidth, height: prevHeight, top, left } = state.size;
+      const prevDpr = state.viewport.dpr;
+      const maxSize = state.gl.capabilities.maxTextureSize;
+
+      state.setDpr(1);
+      state.setSize(clampSize(width, maxSize), clampSize(height, maxSize));
+      try {
+        // Post-processing targets follow the new size on the next commit
+        await settle();
+        return await render(get());
+      } finally {
+        get().setDpr(prevDpr);
+        get().setSize(prevWidth, prevHeight, top, left);
+      }
+    };
+
+    apiRef.current = {
+      getCanvas: () => get().gl.domElement,
+
+      captureStill: (width, height) => withRenderSize(width, height, state => new Promise<Blob>((resolve, reject) => {
+        // Draw synchronously so the drawing buffer still holds this frame when it is read
+        state.advance(performance.now());
+        state.gl.domElement.toBlob(blob => blob ? resolve(blob) : reject(new Error("Snapshot failed")), 'image/png');
+      })),
+
+      renderOffline: ({ width, height, fps, duration, onFrame, onProgress, signal }) => withRenderSize(width, height, async state => {
+        const canvas = state.gl.domElement;
+        const encoder = createWebmEncoder(canvas.width, canvas.height, fps);
+        const frameloop = state.frameloop;
+        const frameCount = Math.max(1, Math.ceil(duration / 1000 * fps));
+
+        // Scene time now only moves when advance() is called (starts at 0)
+        state.setFrameloop('never');
+        try {
+          for (let i = 0; i < frameCount; i++) {
+            if (signal?.aborted) throw new DOMException("Render cancelled", 'AbortError');
+            onFrame(i * 1000 / fps);
+            await settle();
+            get().advance((i + 1) / fps);
+            await encoder.addFrame(canvas, i);
+            onProgress?.((i + 1) / frameCount);
+          }
+          return await encoder.finish();
+        } finally {
+          encoder.close();
+          get().setFrameloop(frameloop);
+        }
+      }),
+    };
+
+    return () => { apiRef.current = null; };
+  }, [get]);
+
+  return null;
+};
+
+export default SceneCapture;
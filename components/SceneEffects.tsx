@@ -0,0 +1,57 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Bloom, DepthOfField, EffectComposer, Vignette } from '@react-three/postprocessing';
+import { DepthOfFieldEffect } from 'postprocessing';
+import * as THREE from 'three';
+import { AnalogParams, EffectsQuality, GestureState } from '../types';
+import { EFFECTS_SETTINGS } from '../utils/effects';
+import { getFocusLevel } from '../utils/analogGestures';
+
+interface SceneEffectsProps {
+  quality: EffectsQuality;
+  gestureState: GestureState;
+  analogRef: React.MutableRefObject<AnalogParams | null>;
+}
+
+// World position a focused photo flies to (see PhotoFrame)
+const FOCUS_TARGET = new THREE.Vector3(0, 0, 20);
+
+// Bloom on the glowing particles, depth of field around the focused photo, vignette
+const SceneEffects: React.FC<SceneEffectsProps> = ({ quality, gestureState, analogRef }) => {
+  const dofRef = useRef<DepthOfFieldEffect>(null);
+  const settings = quality === 'off' ? null : EFFECTS_SETTINGS[quality];
+
+  // Blur everything but the focused photo, following the pinch like the photo fade does
+  useFrame(() => {
+    const dof = dofRef.current;
+    if (!dof || !settings) return;
+    const targetBokeh = gestureState === GestureState.FOCUSED ? settings.bokehScale * getFocusLevel(analogRef.current) : 0;
+    dof.bokehScale = THREE.MathUtils.lerp(dof.bokehScale, targetBokeh, 0.1);
+  });
+
+  if (!settings) return null;
+
+  return (
+    <EffectComposer key={quality} multisampling={settings.multisampling}>
+      <Bloom
+        intensity={settings.bloomIntensity}
+        luminanceThreshold={0.4}
+        luminanceSmoothing={0.3}
+        mipmapBlur={settings.bloomMipmap}
+        resolutionScale={settings.bloomResolution}
+      />
+      {settings.depthOfField && (
+        <DepthOfField
+          ref={dofRef}
+          target={FOCUS_TARGET}
+          worldFocusRange={6}
+          bokehScale={0}
+          resolutionScale={settings.dofResolution}
+        />
+      )}
+      {settings.vignette && <Vignette offset={0.3} darkness={0.6} />}
+    </EffectComposer>
+  );
+};
+
+export default SceneEffects;
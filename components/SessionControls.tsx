@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { DEFAULT_SESSION_NAME, SessionStatus, getDefaultRelayUrl } from '../utils/session';
+
+interface SessionControlsProps {
+  status: SessionStatus | null; // null when not in a session
+  error: string | null;
+  peerCount: number;            // Other people in the session
+  selfColor: string | null;     // Colour the relay gave us
+  onJoin: (relayUrl: string, sessionName: string) => void;
+  onLeave: () => void;
+}
+
+// Join / leave a shared session on a relay (npm run relay)
+const SessionControls: React.FC<SessionControlsProps> = ({ status, error, peerCount, selfColor, onJoin, onLeave }) => {
+  const [relayUrl, setRelayUrl] = useState(getDefaultRelayUrl);
+  const [sessionName, setSessionName] = useState(DEFAULT_SESSION_NAME);
+
+  const inputClass = "px-2 py-1 bg-black/40 border border-white/20 rounded text-xs text-white focus:outline-none focus:border-[color:var(--accent-soft)]";
+  const buttonClass = "px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md";
+  const inSession = status === 'connecting' || status === 'connected';
+
+  return (
+    <div className="mb-4 space-y-1 text-xs text-gray-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <span>Session</span>
+        <input
+          value={relayUrl}
+          onChange={(e) => setRelayUrl(e.target.value)}
+          disabled={inSession}
+          placeholder="ws://host:8787"
+          className={`w-40 ${inputClass}`}
+        />
+        <input
+          value={sessionName}
+          onChange={(e) => setSessionName(e.target.value)}
+          disabled={inSession}
+          placeholder="name"
+          className={`w-20 ${inputClass}`}
+        />
+        {inSession ? (
+          <button onClick={onLeave} className={buttonClass}>Leave</button>
+        ) : (
+          <button onClick={() => onJoin(relayUrl.trim(), sessionName.trim() || DEFAULT_SESSION_NAME)} disabled={!relayUrl.trim()} className={buttonClass}>
+            Join
+          </button>
+        )}
+      </div>
+      {status === 'connecting' && <p className="text-gray-400">Connecting…</p>}
+      {status === 'connected' && (
+        <p className="flex items-center gap-1 text-gray-400">
+          {selfColor && <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: selfColor }}></span>}
+          {peerCount === 0 ? "Waiting for others to join" : `Shared with ${peerCount} other${peerCount === 1 ? '' : 's'}`}
+        </p>
+      )}
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default SessionControls;
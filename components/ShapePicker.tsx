@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ShapeId, ShapeSelection } from '../types';
+import { SHAPES } from '../utils/shapes';
+import { rasterizeImageFile } from '../utils/imageProcessing';
+
+interface ShapePickerProps {
+  shape: ShapeSelection;
+  onChange: (shape: ShapeSelection) => void;
+}
+
+// Picks the formed shape. Text is committed on blur / Enter so the cloud doesn't morph per keystroke
+const ShapePicker: React.FC<ShapePickerProps> = ({ shape, onChange }) => {
+  const [draft, setDraft] = useState(shape.text);
+  const [imageError, setImageError] = useState<string | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => setDraft(shape.text), [shape.text]);
+
+  const commitText = () => {
+    if (draft !== shape.text) onChange({ ...shape, text: draft });
+  };
+
+  const handleSelect = (id: ShapeId) => {
+    // The image shape needs a picture first
+    if (id === 'image' && !shape.image) {
+      imageInputRef.current?.click();
+    } else if (id !== shape.id) {
+      onChange({ ...shape, id });
+    }
+  };
+
+  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const image = await rasterizeImageFile(file);
+      setImageError(null);
+      onChange({ ...shape, id: 'image', image });
+    } catch (e) {
+      console.error("Failed to read shape image", e);
+      setImageError(`Could not read ${file.name}`);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap gap-1">
+        {SHAPES.map(s => (
+          <button
+            key={s.id}
+            onClick={() => handleSelect(s.id)}
+            className={`px-2 py-1 border rounded text-xs transition-colors backdrop-blur-md ${s.id === shape.id ? 'bg-[color:var(--accent-faint)] border-[color:var(--accent-soft)] text-[color:var(--accent-text)]' : 'bg-white/5 hover:bg-white/10 border-white/20 text-gray-300'}`}
+          >
+            {s.label}
+          </button>
+        ))}
+      </div>
+      {shape.id === 'text' && (
+        <input
+          type="text"
+          value={draft}
+          maxLength={24}
+          placeholder="Name or date"
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitText}
+          onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+          className="mt-2 w-48 px-2 py-1 bg-black/40 border border-white/20 rounded text-xs text-white placeholder-gray-500 focus:outline-none focus:border-[color:var(--accent-soft)]"
+        />
+      )}
+      <input
+        type="file"
+        accept="image/*,.svg"
+        ref={imageInputRef}
+        onChange={handleImageUpload}
+        className="hidden"
+      />
+      {shape.id === 'image' && (
+        <button
+          onClick={() => imageInputRef.current?.click()}
+          className="mt-2 px-2 py-1 bg-white/5 hover:bg-white/10 border border-white/20 rounded text-xs text-gray-300 transition-colors backdrop-blur-md"
+        >
+          Change Image / SVG
+        </button>
+      )}
+      {imageError && (
+        <p className="mt-1 text-xs text-red-400">{imageError}</p>
+      )}
+    </div>
+  );
+};
+
+export default ShapePicker;
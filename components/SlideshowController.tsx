@@ -0,0 +1,81 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GestureState, SlideshowSettings } from '../types';
+import { MIN_RESUME_AFTER, getSlideshowFrame, getSlideshowSteps } from '../utils/slideshow';
+
+interface SlideshowControllerProps {
+  settings: SlideshowSettings;
+  photoCount: number;
+  liveInputAtRef: React.MutableRefObject<number>; // performance.now() of the last camera / pointer / replay input
+  onGestureChange: (state: GestureState) => void;
+  onHandMove: (x: number, y: number) => void;
+  onFocusPhoto: (index: number) => void;
+  onLiveTakeover: () => void; // Live input interrupted the loop: hand the scene back to the controller's gesture
+}
+
+// Runs the presentation loop through the same callbacks as the input controllers.
+// Live input pauses it; it starts over from dispersed once the input has been idle long enough
+const SlideshowController: React.FC<SlideshowControllerProps> = ({ settings, photoCount, liveInputAtRef, onGestureChange, onHandMove, onFocusPhoto, onLiveTakeover }) => {
+  const [resumesIn, setResumesIn] = useState<number | null>(null); // Seconds, null while playing
+
+  const callbacksRef = useRef({ onGestureChange, onHandMove, onFocusPhoto, onLiveTakeover });
+  callbacksRef.current = { onGestureChange, onHandMove, onFocusPhoto, onLiveTakeover };
+
+  useEffect(() => {
+    const steps = getSlideshowSteps(settings, photoCount);
+    const resumeAfter = Math.max(settings.resumeAfter, MIN_RESUME_AFTER) * 1000;
+    let startTime: number | null = null; // Start of the current run, null while a live hand has control
+    let currentStep = -1;
+    let shownCountdown = -1;
+    let request = 0;
+
+    const tick = () => {
+      const now = performance.now();
+      const idle = now - liveInputAtRef.current;
+
+      if (idle < resumeAfter) {
+        if (startTime !== null) {
+          startTime = null;
+          callbacksRef.current.onLiveTakeover();
+        }
+        const countdown = Math.ceil((resumeAfter - idle) / 1000);
+        if (countdown !== shownCountdown) {
+          shownCountdown = countdown;
+          setResumesIn(countdown);
+        }
+      } else {
+        if (startTime === null) {
+          startTime = now;
+          currentStep = -1;
+          shownCountdown = -1;
+          setResumesIn(null);
+        }
+
+        const frame = getSlideshowFrame(steps, now - startTime);
+        if (frame) {
+          callbacksRef.current.onHandMove(frame.x, frame.y);
+          if (frame.stepIndex !== currentStep) {
+            currentStep = frame.stepIndex;
+            if (frame.step.photoIndex !== null) {
+              callbacksRef.current.onFocusPhoto(frame.step.photoIndex);
+            } else {
+              callbacksRef.current.onGestureChange(frame.step.state);
+            }
+          }
+        }
+      }
+
+      request = requestAnimationFrame(tick);
+    };
+
+    request = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(request);
+  }, [settings, photoCount]);
+
+  return (
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 px-3 py-1 bg-black/50 rounded-full border border-[color:var(--accent-faint)] text-xs text-[color:var(--accent-text)] pointer-events-none select-none">
+      {resumesIn === null ? "▶ Slideshow" : `Live control • slideshow resumes in ${resumesIn}s`}
+    </div>
+  );
+};
+
+export default SlideshowController;
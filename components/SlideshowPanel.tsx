@@ -0,0 +1,55 @@
+import React from 'react';
+import { SlideshowSettings } from '../types';
+import { DEFAULT_SLIDESHOW_SETTINGS, MIN_RESUME_AFTER } from '../utils/slideshow';
+
+interface SlideshowPanelProps {
+  settings: SlideshowSettings;
+  onChange: (settings: SlideshowSettings) => void;
+  onClose: () => void;
+}
+
+const FIELDS: { key: keyof SlideshowSettings; label: string; min: number }[] = [
+  { key: 'dispersed', label: 'Floating stars', min: 0 },
+  { key: 'formed', label: 'Formed shape', min: 0 },
+  { key: 'rotating', label: 'Rotating shape', min: 0 },
+  { key: 'focused', label: 'Each photo', min: 0 },
+  { key: 'resumeAfter', label: 'Resume after no input', min: MIN_RESUME_AFTER },
+];
+
+// Durations of the presentation loop (0 skips a step)
+const SlideshowPanel: React.FC<SlideshowPanelProps> = ({ settings, onChange, onClose }) => (
+  <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+    <div className="w-full max-w-sm p-6 bg-white/5 border border-[color:var(--accent-faint)] rounded-lg text-white space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold">Slideshow</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">Close</button>
+      </div>
+
+      <div className="space-y-2">
+        {FIELDS.map(({ key, label, min }) => (
+          <label key={key} className="flex items-center justify-between gap-2 text-xs text-gray-300">
+            {label}
+            <span className="flex items-center gap-1">
+              <input
+                type="number" min={min} max={600} step={1}
+                value={settings[key]}
+                onChange={(e) => onChange({ ...settings, [key]: Math.max(min, Number(e.target.value) || 0) })}
+                className="w-16 px-2 py-1 bg-black/40 border border-white/20 rounded text-xs text-white focus:outline-none focus:border-[color:var(--accent-soft)]"
+              />
+              s
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onChange(DEFAULT_SLIDESHOW_SETTINGS)}
+        className="text-xs text-gray-400 hover:text-white"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  </div>
+);
+
+export default SlideshowPanel;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { PaletteEntry, Theme } from '../types';
+import { THEME_PRESETS } from '../utils/theme';
+
+interface ThemePanelProps {
+  theme: Theme;
+  onChange: (theme: Theme) => void;
+  onClose: () => void;
+}
+
+const MAX_PALETTE_SIZE = 6;
+
+type ThemeColorKey = 'background' | 'pointLight' | 'spotLight' | 'accent' | 'accentSecondary';
+
+const COLOR_FIELDS: { key: ThemeColorKey; label: string }[] = [
+  { key: 'accent', label: 'Accent' },
+  { key: 'accentSecondary', label: 'Accent 2' },
+  { key: 'background', label: 'Background' },
+  { key: 'pointLight', label: 'Glow light' },
+  { key: 'spotLight', label: 'Spotlight' },
+];
+
+// Preset picker plus a custom editor; any edit turns the theme into "Custom"
+const ThemePanel: React.FC<ThemePanelProps> = ({ theme, onChange, onClose }) => {
+  const edit = (changes: Partial<Theme>) => {
+    onChange({ ...theme, ...changes, id: 'custom', name: 'Custom' });
+  };
+
+  const editPalette = (index: number, changes: Partial<PaletteEntry>) => {
+    edit({ palette: theme.palette.map((entry, i) => i === index ? { ...entry, ...changes } : entry) });
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="w-full max-w-md p-6 bg-white/5 border border-[color:var(--accent-faint)] rounded-lg text-white space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-semibold">Theme</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">Close</button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {THEME_PRESETS.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => onChange(preset)}
+              className={`flex items-center gap-2 px-3 py-1 border rounded text-xs transition-colors ${preset.id === theme.id ? 'border-[color:var(--accent)] text-[color:var(--accent-text)]' : 'border-white/20 text-gray-300 hover:bg-white/10'}`}
+            >
+              <span className="flex">
+                {preset.palette.map((entry, i) => (
+                  <span key={i} className="w-2 h-3" style={{ background: entry.color }}></span>
+                ))}
+              </span>
+              {preset.name}
+            </button>
+          ))}
+          {theme.id === 'custom' && (
+            <span className="px-3 py-1 border border-[color:var(--accent)] rounded text-xs text-[color:var(--accent-text)]">Custom</span>
+          )}
+        </div>
+
+        <div>
+          <p className="text-xs text-gray-400 mb-2">Particle colours (colour • share)</p>
+          <div className="space-y-1">
+            {theme.palette.map((entry, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <input type="color" value={entry.color} onChange={(e) => editPalette(i, { color: e.target.value })} className="w-8 h-6 bg-transparent" />
+                <input
+                  type="range" min={0} max={1} step={0.05}
+                  value={entry.weight}
+                  onChange={(e) => editPalette(i, { weight: Number(e.target.value) })}
+                  className="flex-1"
+                />
+                <button
+                  onClick={() => edit({ palette: theme.palette.filter((_, j) => j !== i) })}
+                  disabled={theme.palette.length <= 1}
+                  className="w-6 text-gray-400 hover:text-red-400 disabled:opacity-30"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+          {theme.palette.length < MAX_PALETTE_SIZE && (
+            <button
+              onClick={() => edit({ palette: [...theme.palette, { color: '#ffffff', weight: 0.2 }] })}
+              className="mt-2 text-xs text-gray-400 hover:text-white"
+            >
+              + Add colour
+            </button>
+          )}
+        </div>
+
+        <label className="flex items-center gap-2 text-xs text-gray-300">
+          <span className="w-20">Glow</span>
+          <input
+            type="range" min={0} max={1} step={0.05}
+            value={theme.emissiveIntensity}
+            onChange={(e) => edit({ emissiveIntensity: Number(e.target.value) })}
+            className="flex-1"
+          />
+        </label>
+
+        <div className="grid grid-cols-2 gap-2">
+          {COLOR_FIELDS.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2 text-xs text-gray-300">
+              <input type="color" value={theme[key]} onChange={(e) => edit({ [key]: e.target.value })} className="w-8 h-6 bg-transparent" />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ThemePanel;
@@ -1,49 +1,100 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { FilesetResolver, HandLandmarker, DrawingUtils } from '@mediapipe/tasks-vision';
-import { GestureState } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { HandLandmarker, DrawingUtils } from '@mediapipe/tasks-vision';
+import { DynamicGesture, GestureClassifier, GestureFrame, GestureState, HandLandmark, Handedness } from '../types';
+import { createGesturePipeline } from '../utils/gesturePipeline';
+import { VisionDelegate, createHandLandmarker } from '../utils/visionAssets';
 
 interface VisionControllerProps {
+  classifier: GestureClassifier;
   onGestureChange: (state: GestureState) => void;
   onHandMove: (x: number, y: number) => void;
+  onLandmarks?: (hands: HandLandmark[][], timestamp: number, handedness?: Handedness[]) => void; // Raw per-frame landmarks (e.g. for calibration)
+  onGestureFrame?: (frame: GestureFrame) => void; // Per-frame details (two-hand parameters etc.)
+  onDynamicGesture?: (gesture: DynamicGesture, focused: boolean) => void; // Swipes & waves
+  onCameraUnavailable?: (reason: string) => void; // getUserMedia failed (no camera / permission denied)
+  onSwitchToPointer?: () => void;
+  videoElementRef?: React.MutableRefObject<HTMLVideoElement | null>; // Webcam element, shared for the recording inset
 }
 
-const VisionController: React.FC<VisionControllerProps> = ({ onGestureChange, onHandMove }) => {
+const VisionController: React.FC<VisionControllerProps> = ({ classifier, onGestureChange, onHandMove, onLandmarks, onGestureFrame, onDynamicGesture, onCameraUnavailable, onSwitchToPointer, videoElementRef }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [initError, setInitError] = useState<string | null>(null);
+  const [initAttempt, setInitAttempt] = useState(0);
+  const [delegate, setDelegate] = useState<VisionDelegate | null>(null);
   const [cameraAllowed, setCameraAllowed] = useState(false);
   const handLandmarkerRef = useRef<HandLandmarker | null>(null);
   const requestRef = useRef<number>(0);
 
-  // Initialize MediaPipe
+  // The prediction loop is started once, so read the latest props through refs
+  const callbacksRef = useRef({ onGestureChange, onHandMove, onLandmarks, onGestureFrame, onDynamicGesture, onCameraUnavailable });
+  callbacksRef.current = { onGestureChange, onHandMove, onLandmarks, onGestureFrame, onDynamicGesture, onCameraUnavailable };
+
+  // Classifier -> debounced gesture state + smoothed wrist position
+  const pipeline = useMemo(() => createGesturePipeline(classifier, {
+    onGestureChange: (state) => callbacksRef.current.onGestureChange(state),
+    onHandMove: (x, y) => callbacksRef.current.onHandMove(x, y),
+    onGestureFrame: (frame) => callbacksRef.current.onGestureFrame?.(frame),
+    onDynamicGesture: (gesture, focused) => callbacksRef.current.onDynamicGesture?.(gesture, focused),
+  }), []);
+
   useEffect(() => {
+    pipeline.setClassifier(classifier);
+  }, [classifier]);
+
+  useEffect(() => {
+    if (!videoElementRef) return;
+    videoElementRef.current = videoRef.current;
+    return () => { videoElementRef.current = null; };
+  }, [videoElementRef]);
+
+  // Initialize MediaPipe (re-runs when the user hits Retry)
+  useEffect(() => {
+    let cancelled = false;
+
     const initMediaPipe = async () => {
+      setStatus('loading');
+      setInitError(null);
       try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm"
-        );
-        
-        handLandmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task",
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 1
-        });
-        
-        setLoading(false);
+        const { landmarker, delegate: activeDelegate } = await createHandLandmarker(2);
+        if (cancelled) {
+          landmarker.close();
+          return;
+        }
+
+        handLandmarkerRef.current = landmarker;
+        setDelegate(activeDelegate);
+        setStatus('ready');
         startCamera();
       } catch (err) {
         console.error("MediaPipe Init Error:", err);
+        if (!cancelled) {
+          setInitError(err instanceof Error ? err.message : String(err));
+          setStatus('error');
+        }
       }
     };
 
     initMediaPipe();
     
     return () => {
+       cancelled = true;
        if (requestRef.current) cancelAnimationFrame(requestRef.current);
     };
+  }, [initAttempt]);
+
+  // Release the camera and model when unmounting (e.g. switching to mouse mode)
+  useEffect(() => {
+    const video = videoRef.current;
+    return () => {
+       if (video && video.srcObject instanceof MediaStream) {
+         video.srcObject.getTracks().forEach(track => track.stop());
+         video.srcObject = null;
+       }
+       handLandmarkerRef.current?.close();
+       handLandmarkerRef.current = null;
+    };
   }, []);
 
   const startCamera = async () => {
@@ -59,55 +110,10 @@ const VisionController: React.FC<VisionControllerProps> = ({ onGestureChange, on
     } catch (err) {
       console.error("Camera Error:", err);
       setCameraAllowed(false);
+      callbacksRef.current.onCameraUnavailable?.(err instanceof Error ? err.message : String(err));
     }
   };
 
-  const detectGesture = (landmarks: any[]) => {
-    if (!landmarks || landmarks.length === 0) return GestureState.DISPERSED; // Default if no hand
-
-    const hand = landmarks[0]; // Assume 1 hand
-    const wrist = hand[0];
-    const thumbTip = hand[4];
-    const indexTip = hand[8];
-    const middleTip = hand[12];
-    const ringTip = hand[16];
-    const pinkyTip = hand[20];
-
-    // Helper to calc distance
-    const dist = (p1: any, p2: any) => Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
-
-    const pinchDist = dist(thumbTip, indexTip);
-    const indexDist = dist(indexTip, wrist);
-    const middleDist = dist(middleTip, wrist);
-    const ringDist = dist(ringTip, wrist);
-    const pinkyDist = dist(pinkyTip, wrist);
-
-    // 1. PINCH Detection (Thumb tip close to Index tip)
-    // Priority: Pinch > V-Sign > Fist > Open
-    if (pinchDist < 0.06 && (middleDist > 0.2 || ringDist > 0.2)) {
-      return GestureState.FOCUSED;
-    }
-
-    // 2. V-SIGN (Peace) Detection
-    // Index & Middle extended (far from wrist)
-    // Ring & Pinky curled (close to wrist)
-    if (indexDist > 0.35 && middleDist > 0.35 && ringDist < 0.25 && pinkyDist < 0.25) {
-        // Ensure not pinching
-        if (pinchDist > 0.1) {
-            return GestureState.ROTATING;
-        }
-    }
-
-    // 3. FIST Detection (All fingertips close to wrist)
-    const avgTipToWrist = (indexDist + middleDist + ringDist + pinkyDist) / 4;
-
-    if (avgTipToWrist < 0.25) {
-      return GestureState.FORMED;
-    }
-
-    return GestureState.DISPERSED;
-  };
-
   const predictWebcam = () => {
     if (!handLandmarkerRef.current || !videoRef.current || !canvasRef.current) return;
 
@@ -125,28 +131,25 @@ const VisionController: React.FC<VisionControllerProps> = ({ onGestureChange, on
        canvas.width = video.videoWidth;
        canvas.height = video.videoHeight;
        
-       if (result.landmarks && result.landmarks.length > 0) {
-         const landmarks = result.landmarks[0];
+       const hands = result.landmarks || [];
+       // MediaPipe labels hands as if the image were mirrored. Our frames aren't, so swap
+       const handedness = (result.handedness || []).map(categories =>
+         (categories[0]?.categoryName === 'Left' ? 'Right' : 'Left') as Handedness
+       );
+       callbacksRef.current.onLandmarks?.(hands, startTimeMs, handedness);
+
+       if (hands.length > 0) {
          const drawingUtils = new DrawingUtils(ctx!);
          
          // Draw Hand
-         for (const l of result.landmarks) {
+         for (const l of hands) {
             drawingUtils.drawConnectors(l, HandLandmarker.HAND_CONNECTIONS, { color: "#00FF00", lineWidth: 2 });
             drawingUtils.drawLandmarks(l, { color: "#FF0000", lineWidth: 1, radius: 3 });
          }
-         
-         // Process Gesture
-         const newState = detectGesture(result.landmarks);
-         onGestureChange(newState);
-
-         // Process Position (Use Wrist as anchor)
-         onHandMove(landmarks[0].x, landmarks[0].y);
-
-       } else {
-         // No hand detected -> Relax to Dispersed
-         onGestureChange(GestureState.DISPERSED);
-         onHandMove(0.5, 0.5);
        }
+
+       // Gesture + position (handles brief hand loss with a grace period)
+       pipeline.process(hands, startTimeMs, handedness);
     }
 
     requestRef.current = requestAnimationFrame(predictWebcam);
@@ -165,16 +168,41 @@ const VisionController: React.FC<VisionControllerProps> = ({ onGestureChange, on
         ref={canvasRef}
         className="absolute w-full h-full object-cover transform -scale-x-100"
       />
-      {loading && (
+      {status === 'loading' && (
         <div className="absolute inset-0 flex items-center justify-center text-white text-xs">
           Loading AI Model...
         </div>
       )}
-      {!cameraAllowed && !loading && (
+      {status === 'error' && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-xs text-center p-2 bg-black/70">
+          <span className="text-red-400">Hand tracking failed to load</span>
+          <span className="text-gray-400 line-clamp-2" title={initError || undefined}>{initError}</span>
+          <button 
+            onClick={() => setInitAttempt(a => a + 1)}
+            className="px-3 py-1 bg-white/10 hover:bg-white/20 border border-white/30 rounded text-white transition-colors"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+      {status === 'ready' && delegate === 'CPU' && (
+        <div className="absolute bottom-1 left-1 px-1 rounded bg-black/60 text-[10px] text-yellow-300">
+          CPU mode
+        </div>
+      )}
+      {!cameraAllowed && status === 'ready' && (
         <div className="absolute inset-0 flex items-center justify-center text-red-400 text-xs text-center p-2">
           Camera access required
         </div>
       )}
+      {onSwitchToPointer && (
+        <button 
+          onClick={onSwitchToPointer}
+          className="absolute bottom-1 right-1 px-1 rounded bg-black/60 text-[10px] text-gray-300 hover:text-white"
+        >
+          Use Mouse
+        </button>
+      )}
     </div>
   );
 };
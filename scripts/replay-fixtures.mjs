@@ -0,0 +1,60 @@
+// Headless regression check for the gesture pipeline.
+// Replays every recording in fixtures/landmarks through the default classifier
+// and compares the emitted gesture transitions with the fixture's `expected` list
+// (and the swipes & waves with `expectedDynamic`, where given).
+// Usage: npm run replay:fixtures
+import { readdir, readFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const fixturesDir = resolve(root, 'fixtures/landmarks');
+
+// Let Vite compile the TypeScript modules for us (same code the app runs)
+const server = await createServer({
+  root,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true, include: [] },
+});
+
+let failures = 0;
+
+try {
+  const { checkFixture, formatDynamicGesture } = await server.ssrLoadModule('/utils/replayHarness.ts');
+  const { createThresholdClassifier } = await server.ssrLoadModule('/utils/gestureClassifier.ts');
+  const { parseLandmarkRecording } = await server.ssrLoadModule('/utils/landmarkRecording.ts');
+
+  const files = (await readdir(fixturesDir)).filter(f => f.endsWith('.json')).sort();
+  if (files.length === 0) {
+    console.log('No fixtures found in fixtures/landmarks');
+  }
+
+  for (const file of files) {
+    const recording = parseLandmarkRecording(await readFile(resolve(fixturesDir, file), 'utf-8'));
+    if (!recording.expected && !recording.expectedDynamic) {
+      console.log(`SKIP ${file} (no expected sequence)`);
+      continue;
+    }
+
+    const result = checkFixture(recording, createThresholdClassifier());
+    if (result.passed) {
+      console.log(`PASS ${file}`);
+    } else {
+      failures++;
+      console.log(`FAIL ${file}`);
+      console.log(`  expected: ${result.expected.join(' -> ')}`);
+      console.log(`  actual:   ${result.actual.join(' -> ')}`);
+      if (result.expectedDynamic) {
+        console.log(`  expected swipes: ${result.expectedDynamic.map(formatDynamicGesture).join(' -> ')}`);
+        console.log(`  actual swipes:   ${result.actualDynamic.map(formatDynamicGesture).join(' -> ')}`);
+      }
+    }
+  }
+} finally {
+  await server.close();
+}
+
+process.exit(failures > 0 ? 1 : 0);
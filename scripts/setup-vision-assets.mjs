@@ -0,0 +1,45 @@
+// Copies the MediaPipe WASM runtime from node_modules into public/ and downloads
+// the hand landmarker model once, so the app can run without internet access.
+// Usage: npm run setup:vision
+import { cp, mkdir, stat, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const wasmSource = resolve(root, 'node_modules/@mediapipe/tasks-vision/wasm');
+const targetDir = resolve(root, 'public/mediapipe');
+const modelTarget = resolve(targetDir, 'hand_landmarker.task');
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+const exists = async (path) => {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+await mkdir(targetDir, { recursive: true });
+
+if (await exists(wasmSource)) {
+  await cp(wasmSource, resolve(targetDir, 'wasm'), { recursive: true });
+  console.log('[vision] Copied MediaPipe WASM to public/mediapipe/wasm');
+} else {
+  console.warn('[vision] @mediapipe/tasks-vision is not installed, run npm install first');
+}
+
+if (await exists(modelTarget)) {
+  console.log('[vision] Hand model already present');
+} else {
+  try {
+    const response = await fetch(MODEL_URL);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    await writeFile(modelTarget, Buffer.from(await response.arrayBuffer()));
+    console.log('[vision] Downloaded hand model to public/mediapipe/hand_landmarker.task');
+  } catch (err) {
+    // Don't fail the build: the app falls back to the CDN (if allowed) and shows a retry button
+    console.warn(`[vision] Could not download the hand model (${err.message}).`);
+    console.warn(`[vision] Download it manually from ${MODEL_URL} into public/mediapipe/`);
+  }
+}
@@ -0,0 +1,146 @@
+// Bridge for the remote control API (RemoteControlCommand / RemoteControlEvent in types.ts).
+// Scenes connect with ?role=scene, controllers (scripts, control.html on a phone) with ?role=controller,
+// both with &token=<token>. Commands from controllers go to every scene, events from scenes go to
+// every controller; the scene validates everything it receives.
+//
+// OSC over UDP (lighting desks, TouchOSC, QLab...) is translated into commands. The first argument
+// of every message is the token:
+//   /heart/gesture  s s        token, DISPERSED | FORMED | ROTATING | FOCUSED
+//   /heart/hand     s f f      token, x y, 0..1 (mirrored camera coordinates: x = 0 is the right edge)
+//   /heart/shape    s s [s f]  token, shape id, optional text and scale
+//   /heart/photo    s s [s]    token, image URL, optional caption
+//   /heart/state    s          token; asks every scene to publish its state
+//
+// Only this machine can connect unless --host says otherwise: whoever has the token controls the
+// scene and can make it fetch any URL (add-photo).
+// Usage: npm run control-bridge                                  (localhost, prints a new token)
+//        npm run control-bridge -- --host 0.0.0.0 --token secret  (every interface, fixed token)
+//        PORT=8800 OSC_PORT=9001 npm run control-bridge
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { createSocket } from 'node:dgram';
+import { parseArgs } from 'node:util';
+import { WebSocketServer } from 'ws';
+
+const { values: args } = parseArgs({
+  options: {
+    host: { type: 'string', default: '127.0.0.1' },
+    token: { type: 'string', default: process.env.BRIDGE_TOKEN },
+  },
+});
+
+const HOST = args.host;
+const TOKEN = args.token || randomBytes(12).toString('hex');
+const PORT = Number(process.env.PORT) || 8788;
+const OSC_PORT = Number(process.env.OSC_PORT) || 9000;
+const MAX_PAYLOAD = 32 * 1024 * 1024; // add-photo may carry a data: URL
+
+const isToken = (value) => {
+  if (typeof value !== 'string') return false;
+  const given = Buffer.from(value);
+  const expected = Buffer.from(TOKEN);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const scenes = new Set();
+const controllers = new Set();
+
+const sendAll = (sockets, data) => {
+  sockets.forEach(socket => {
+    if (socket.readyState === socket.OPEN) socket.send(data);
+  });
+};
+
+const wss = new WebSocketServer({ host: HOST, port: PORT, maxPayload: MAX_PAYLOAD });
+
+wss.on('connection', (socket, request) => {
+  const params = new URL(request.url ?? '/', 'http://bridge').searchParams;
+  if (!isToken(params.get('token'))) {
+    socket.close(1008, "Wrong or missing bridge token");
+    return;
+  }
+  const role = params.get('role');
+  if (role !== 'scene' && role !== 'controller') {
+    socket.close(1008, "role must be scene or controller");
+    return;
+  }
+
+  const own = role === 'scene' ? scenes : controllers;
+  const others = role === 'scene' ? controllers : scenes;
+  own.add(socket);
+  console.log(`${role} connected (${scenes.size} scene(s), ${controllers.size} controller(s))`);
+
+  socket.on('message', (data) => sendAll(others, data.toString()));
+  socket.on('close', () => {
+    own.delete(socket);
+    console.log(`${role} disconnected (${scenes.size} scene(s), ${controllers.size} controller(s))`);
+  });
+});
+
+wss.on('listening', () => {
+  console.log(`Heart Cloud control bridge listening on ws://${HOST}:${PORT}`);
+  console.log(`Bridge address for the scene and control page: ws://${HOST === '0.0.0.0' ? '<this machine>' : HOST}:${PORT}/?token=${TOKEN}`);
+});
+
+// --- OSC ---
+
+// OSC strings are null-terminated and padded to 4 bytes
+const readString = (buffer, offset) => {
+  const end = buffer.indexOf(0, offset);
+  if (end < 0) throw new Error("Unterminated OSC string");
+  return { value: buffer.toString('utf8', offset, end), next: (end + 4) & ~3 };
+};
+
+// Calls onMessage(address, args) for a message or every message of a bundle
+const readPacket = (buffer, onMessage) => {
+  const head = readString(buffer, 0);
+  if (head.value === '#bundle') {
+    let offset = head.next + 8; // Skip the time tag
+    while (offset + 4 <= buffer.length) {
+      const size = buffer.readInt32BE(offset);
+      readPacket(buffer.subarray(offset + 4, offset + 4 + size), onMessage);
+      offset += 4 + size;
+    }
+    return;
+  }
+
+  const tags = head.next < buffer.length ? readString(buffer, head.next) : { value: ',', next: head.next };
+  const args = [];
+  let offset = tags.next;
+  for (const tag of tags.value.slice(1)) {
+    if (tag === 'i') { args.push(buffer.readInt32BE(offset)); offset += 4; }
+    else if (tag === 'f') { args.push(buffer.readFloatBE(offset)); offset += 4; }
+    else if (tag === 'd') { args.push(buffer.readDoubleBE(offset)); offset += 8; }
+    else if (tag === 's') { const s = readString(buffer, offset); args.push(s.value); offset = s.next; }
+    else if (tag === 'T' || tag === 'F') args.push(tag === 'T');
+    else throw new Error(`Unsupported OSC type tag: ${tag}`);
+  }
+  onMessage(head.value, args);
+};
+
+const oscToCommand = (address, args) => {
+  switch (address) {
+    case '/heart/gesture': return { type: 'set-gesture', state: String(args[0]).toUpperCase() };
+    case '/heart/hand': return { type: 'hand', x: args[0], y: args[1] };
+    case '/heart/shape': return { type: 'set-shape', id: args[0], text: args[1], scale: args[2] };
+    case '/heart/photo': return { type: 'add-photo', url: args[0], caption: args[1] };
+    case '/heart/state': return { type: 'get-state' };
+    default: return null;
+  }
+};
+
+const osc = createSocket('udp4');
+
+osc.on('message', (buffer) => {
+  try {
+    readPacket(buffer, (address, [token, ...args]) => {
+      if (!isToken(token)) throw new Error(`wrong or missing token for ${address}`);
+      const command = oscToCommand(address, args);
+      if (command) sendAll(scenes, JSON.stringify(command));
+    });
+  } catch (e) {
+    console.warn(`Ignoring OSC packet: ${e.message}`);
+  }
+});
+
+osc.on('listening', () => console.log(`Listening for OSC on udp://${HOST}:${OSC_PORT}`));
+osc.bind(OSC_PORT, HOST);
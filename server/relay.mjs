@@ -0,0 +1,125 @@
+// Relay for shared sessions: every client in a session gets the others' hand positions,
+// gestures, shape changes and photos. Message types are documented in types.ts
+// (SessionClientMessage / SessionServerMessage).
+// Usage: npm run relay            (ws://<this machine>:8787)
+//        PORT=9000 npm run relay
+import { randomUUID } from 'node:crypto';
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_PAYLOAD = 16 * 1024 * 1024; // One photo per message (texture variant, base64)
+const MAX_PHOTOS_PER_PEER = 100;
+
+const COLORS = ['#f472b6', '#facc15', '#4ade80', '#a78bfa', '#fb923c', '#38bdf8'];
+const GESTURES = ['DISPERSED', 'FORMED', 'ROTATING', 'FOCUSED'];
+
+// name -> { peers: Map<id, { socket, info }>, shape, photos: Map<"peerId:photoId", { peerId, photo }>, nextColor }.
+// Photo ids come from the clients, so they're only unique per peer
+const sessions = new Map();
+
+const getSession = (name) => {
+  let session = sessions.get(name);
+  if (!session) {
+    session = { peers: new Map(), shape: null, photos: new Map(), nextColor: 0 };
+    sessions.set(name, session);
+  }
+  return session;
+};
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (session, message, exceptId) => {
+  const data = JSON.stringify(message);
+  session.peers.forEach(({ socket }, id) => {
+    if (id !== exceptId && socket.readyState === socket.OPEN) socket.send(data);
+  });
+};
+
+const isFiniteNumber = (v) => typeof v === 'number' && Number.isFinite(v);
+
+const isValidShape = (shape) =>
+  shape && typeof shape.id === 'string' && typeof shape.text === 'string' && isFiniteNumber(shape.scale);
+
+const isValidPhoto = (photo) =>
+  photo && typeof photo.id === 'string' && typeof photo.data === 'string' && typeof photo.type === 'string' &&
+  typeof photo.caption === 'string' && isFiniteNumber(photo.width) && isFiniteNumber(photo.height);
+
+const wss = new WebSocketServer({ port: PORT, maxPayload: MAX_PAYLOAD });
+
+wss.on('connection', (socket, request) => {
+  const name = new URL(request.url ?? '/', 'http://relay').searchParams.get('session') || 'default';
+  const session = getSession(name);
+  const id = randomUUID();
+  const info = { id, color: COLORS[session.nextColor++ % COLORS.length], gesture: 'DISPERSED', contributed: false };
+
+  send(socket, {
+    type: 'welcome',
+    id,
+    color: info.color,
+    peers: [...session.peers.values()].map(peer => peer.info),
+    shape: session.shape,
+    photos: [...session.photos.values()],
+  });
+  session.peers.set(id, { socket, info });
+  broadcast(session, { type: 'peer-joined', peer: info }, id);
+  console.log(`[${name}] ${id} joined (${session.peers.size} connected)`);
+
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+
+    switch (message?.type) {
+      case 'hand':
+        if (isFiniteNumber(message.x) && isFiniteNumber(message.y)) {
+          broadcast(session, { type: 'hand', peerId: id, x: message.x, y: message.y }, id);
+        }
+        break;
+      case 'gesture':
+        if (!GESTURES.includes(message.state)) break;
+        info.gesture = message.state;
+        info.contributed ||= message.state === 'FORMED' || message.state === 'ROTATING';
+        broadcast(session, { type: 'gesture', peerId: id, state: info.gesture, contributed: info.contributed }, id);
+        break;
+      case 'shape':
+        if (!isValidShape(message.shape)) break;
+        session.shape = message.shape;
+        broadcast(session, { type: 'shape', peerId: id, shape: message.shape }, id);
+        break;
+      case 'photo-added': {
+        if (!isValidPhoto(message.photo)) break;
+        const key = `${id}:${message.photo.id}`;
+        const existing = session.photos.get(key);
+        if (existing && existing.peerId !== id) break;
+        const owned = [...session.photos.values()].filter(entry => entry.peerId === id).length;
+        if (!existing && owned >= MAX_PHOTOS_PER_PEER) break;
+        const entry = { peerId: id, photo: message.photo };
+        session.photos.set(key, entry);
+        broadcast(session, { type: 'photo-added', ...entry }, id);
+        break;
+      }
+      case 'photo-removed':
+        if (session.photos.get(`${id}:${message.id}`)?.peerId !== id) break;
+        session.photos.delete(`${id}:${message.id}`);
+        broadcast(session, { type: 'photo-removed', peerId: id, id: message.id }, id);
+        break;
+    }
+  });
+
+  socket.on('close', () => {
+    session.peers.delete(id);
+    session.photos.forEach((entry, photoId) => {
+      if (entry.peerId === id) session.photos.delete(photoId);
+    });
+    broadcast(session, { type: 'peer-left', peerId: id });
+    console.log(`[${name}] ${id} left (${session.peers.size} connected)`);
+    if (session.peers.size === 0) sessions.delete(name);
+  });
+});
+
+wss.on('listening', () => console.log(`Heart Cloud relay listening on ws://localhost:${PORT}`));
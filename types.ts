@@ -6,8 +6,298 @@ export enum GestureState {
   LOADING = 'LOADING'
 }
 
+// Where gestures come from: live hand tracking, mouse / touch / keyboard,
+// or a recorded landmark stream
+export type InputMode = 'camera' | 'pointer' | 'replay';
+
+// Ask PhotoGallery to focus a specific photo (e.g. clicked with the mouse),
+// or step through photos relative to the focused one (e.g. swipe = +1 / -1).
+// id changes on every request so repeated clicks on the same photo still register
+export type FocusRequest = { id: number } & ({ index: number } | { step: number });
+
+// Time-series gestures detected from the wrist trajectory
+export type DynamicGesture = 'SWIPE_LEFT' | 'SWIPE_RIGHT' | 'SWIPE_UP' | 'WAVE';
+
+export interface DynamicGestureEvent {
+  gesture: DynamicGesture;
+  focused: boolean; // Made on a focused photo (see GesturePipelineCallbacks.onDynamicGesture)
+}
+
 export interface HandLandmark {
   x: number;
   y: number;
   z: number;
-}
\ No newline at end of file
+}
+
+// Hand measurements in "palm units" (distance / palm size), so they don't
+// depend on hand size or how far the user sits from the camera
+export interface HandFeatures {
+  palmSize: number; // Wrist -> middle finger MCP (normalized image units)
+  pinch: number;    // Thumb tip -> index tip
+  index: number;    // Fingertip -> wrist
+  middle: number;
+  ring: number;
+  pinky: number;
+}
+
+export type Handedness = 'Left' | 'Right';
+
+export interface TrackedHand {
+  handedness: Handedness;
+  landmarks: HandLandmark[];
+  gesture: GestureState; // Raw (undebounced) classification of this hand alone
+}
+
+// Continuous parameters while both hands are visible.
+// Positions use the same normalized camera coordinates as onHandMove.
+export interface TwoHandParams {
+  holding: boolean;   // Hands were brought together and the heart is held between them
+  together: boolean;  // Wrists currently close to each other
+  distance: number;   // Wrist-to-wrist distance in palm units
+  scale: number;      // Distance relative to the moment the heart was grabbed (1 = unchanged)
+  roll: number;       // Radians, twist in the image plane since grabbing
+  pitch: number;      // Radians, both palms tipped toward / away from the camera
+  yaw: number;        // Radians, one hand pushed closer to the camera than the other
+  left: { x: number; y: number };  // Wrist of the hand on the left of the screen
+  right: { x: number; y: number }; // Wrist of the hand on the right of the screen
+}
+
+// Continuous (smoothed) parameters of the primary hand
+export interface AnalogParams {
+  roll: number;  // Radians, hand tilt on screen. 0 = fingers up, + = tilted to the left
+  depth: number; // 0 (far from camera) .. 1 (close), estimated from palm size
+  pinch: number; // 0 (thumb & index apart) .. 1 (touching)
+}
+
+// Everything the pipeline knows about one video frame, alongside the GestureState enum
+export interface GestureFrame {
+  state: GestureState; // Debounced gesture (same value passed to onGestureChange)
+  hands: TrackedHand[];
+  twoHand: TwoHandParams | null;
+  analog: AnalogParams | null;
+  timestamp: number;
+}
+
+// One detectForVideo result. t = milliseconds since the recording started
+export interface LandmarkFrame {
+  t: number;
+  hands: HandLandmark[][];
+  handedness?: Handedness[];
+}
+
+// Recorded landmark stream. With `expected` set it doubles as a regression fixture
+export interface LandmarkRecording {
+  version: number;
+  createdAt: number;
+  frames: LandmarkFrame[];
+  expected?: GestureState[]; // Gesture transitions the pipeline should produce
+  expectedDynamic?: DynamicGestureEvent[]; // Swipes & waves it should detect, in order
+}
+
+// Palm-normalized thresholds used by the gesture classifier
+export interface GestureThresholds {
+  pinchMax: number;        // Thumb & index closer than this = pinch
+  pinchReleaseMin: number; // V-Sign requires thumb & index at least this far apart
+  extendedMin: number;     // Fingertip further than this from the wrist = extended
+  curledMax: number;       // Fingertip closer than this to the wrist = curled
+  fistMax: number;         // Average fingertip distance below this = fist
+}
+
+export type CalibrationPose = 'OPEN' | 'FIST' | 'V_SIGN' | 'PINCH';
+
+export interface CalibrationProfile {
+  version: number;
+  createdAt: number;
+  thresholds: GestureThresholds;
+}
+
+// Maps the landmarks of a single hand to a gesture
+export interface GestureClassifier {
+  classify: (hand: HandLandmark[]) => GestureState;
+}
+
+// A photo as persisted in IndexedDB (see utils/photoStore.ts)
+// Gallery items are pictures or short clips (animated GIFs are stored as WebM clips)
+export type PhotoKind = 'image' | 'video';
+
+export interface StoredPhoto {
+  id: string;
+  kind: PhotoKind;
+  createdAt: number;
+  name: string;
+  width: number;   // Original size in pixels
+  height: number;
+  original: Blob;  // The file as uploaded (the clip, for videos)
+  texture: Blob;   // Downscaled for GPU textures (a video's poster frame)
+  thumbnail: Blob; // Small preview for the UI
+  caption: string;
+  favourite: boolean;
+  order: number;   // Sort key, lower first
+  takenAt: number | null; // EXIF capture date (ms since epoch), null when the file has none
+  album: string;   // Album / tag the clustered layout groups by ('' = none)
+}
+
+// A photo as the scene and UI consume it (URLs point at the stored Blobs)
+export interface PhotoRecord {
+  id: string;
+  kind: PhotoKind;
+  url: string;          // Texture-sized image, what the cloud shows (poster of a video)
+  originalUrl: string;  // Full resolution, only loaded while the photo is focused (the clip of a video)
+  thumbnailUrl: string;
+  caption: string;
+  favourite: boolean;
+  width: number;
+  height: number;
+  takenAt: number | null;
+  album: string;
+}
+
+// How photos are arranged in the cloud and on the formed shape (see utils/photoLayout.ts)
+export type PhotoLayout = 'scatter' | 'surface' | 'timeline' | 'albums';
+
+// Formed shapes available in the shape registry (see utils/shapes.ts)
+export type ShapeId = 'heart' | 'star' | 'ring' | 'sphere' | 'torus' | 'text' | 'image';
+
+export interface ShapeSelection {
+  id: ShapeId;
+  text: string;              // Only used by the 'text' shape
+  image: ImageData | null;   // Only used by the 'image' shape (rasterised upload)
+  scale: number;             // Size multiplier, 1 = the shape's own size
+}
+
+// How the dispersed particle cloud reacts to the hand
+// follow = the whole cloud follows the hand, repel / attract = per-particle force field
+export type ParticleInteraction = 'follow' | 'repel' | 'attract';
+
+// One particle colour and how often it's picked relative to the others
+export interface PaletteEntry {
+  color: string; // Hex, e.g. "#38bdf8"
+  weight: number;
+}
+
+// Look of the scene and overlay (see utils/theme.ts)
+export interface Theme {
+  id: string;          // Preset id, or 'custom' after editing
+  name: string;
+  palette: PaletteEntry[];
+  emissiveIntensity: number; // Extra glow added to every particle
+  background: string;
+  pointLight: string;
+  spotLight: string;
+  accent: string;            // Focused photo border & UI highlights
+  accentSecondary: string;   // End of the title gradient
+}
+
+// Post-processing quality (see utils/effects.ts)
+export type EffectsQuality = 'off' | 'low' | 'medium' | 'high';
+
+// Unattended presentation loop, durations in seconds (see utils/slideshow.ts)
+export interface SlideshowSettings {
+  dispersed: number;
+  formed: number;
+  rotating: number;
+  focused: number;     // Per photo
+  resumeAfter: number; // Idle time after live input before the slideshow takes over again
+}
+
+// Scene constants that used to be hard-coded (see utils/sceneConfig.ts)
+export interface SceneTuning {
+  handSensitivityX: number; // World units per half camera width
+  handSensitivityY: number;
+  dispersedRadius: number;  // Floating star cloud
+  photoRadius: number;      // Floating photos
+  photoUnlockCycles: number; // Times the shape has to be formed before photos appear
+}
+
+// Everything needed to recreate a scene on another machine (photos travel separately)
+export interface SceneConfig {
+  version: number;
+  shape: { id: ShapeId; text: string; scale: number }; // Image shapes need a bundle for the picture
+  particleCount: number;
+  particleInteraction: ParticleInteraction;
+  theme: Theme;
+  effectsQuality: EffectsQuality;
+  slideshow: SlideshowSettings;
+  tuning: SceneTuning;
+  photoLayout: PhotoLayout; // Optional in files: older ones get 'scatter'
+}
+
+// Live music / microphone analysis (see utils/audioAnalysis.ts), read every frame
+export interface AudioLevels {
+  bass: number;      // Band energies, 0..1
+  mid: number;
+  treble: number;
+  beat: number;      // 1 on a beat, decays towards 0
+  beatCount: number; // Increments on every beat
+}
+
+export type AudioSource = 'off' | 'track' | 'microphone';
+
+// --- Shared sessions over the relay (server/relay.mjs, utils/session.ts) ---
+
+export interface SessionPeer {
+  id: string;
+  color: string;           // Assigned by the relay; tints the peer's cursor & particles
+  gesture: GestureState;
+  contributed: boolean;    // Has formed the shape, so their particles & photos join the scene
+}
+
+export interface SharedShape {
+  id: ShapeId; // Image shapes travel without their picture (receivers fall back to the heart)
+  text: string;
+  scale: number;
+}
+
+export interface SharedPhoto {
+  id: string;
+  caption: string;
+  width: number;
+  height: number;
+  type: string;
+  data: string; // Base64 texture variant
+  takenAt: number | null;
+  album: string;
+}
+
+// Client -> relay
+export type SessionClientMessage =
+  | { type: 'hand'; x: number; y: number } // Normalized (mirrored) camera coordinates
+  | { type: 'gesture'; state: GestureState }
+  | { type: 'shape'; shape: SharedShape }
+  | { type: 'photo-added'; photo: SharedPhoto }
+  | { type: 'photo-removed'; id: string };
+
+// Relay -> client (relayed messages carry the sender's peerId)
+export type SessionServerMessage =
+  | { type: 'welcome'; id: string; color: string; peers: SessionPeer[]; shape: SharedShape | null; photos: { peerId: string; photo: SharedPhoto }[] }
+  | { type: 'peer-joined'; peer: SessionPeer }
+  | { type: 'peer-left'; peerId: string }
+  | { type: 'hand'; peerId: string; x: number; y: number }
+  | { type: 'gesture'; peerId: string; state: GestureState; contributed: boolean }
+  | { type: 'shape'; peerId: string; shape: SharedShape }
+  | { type: 'photo-added'; peerId: string; photo: SharedPhoto }
+  | { type: 'photo-removed'; peerId: string; id: string };
+
+// --- Remote control API (utils/remoteControl.ts, server/control-bridge.mjs, control.html) ---
+
+// Controller -> scene
+export type RemoteControlCommand =
+  | { type: 'set-gesture'; state: GestureState }
+  | { type: 'hand'; x: number; y: number }                        // Normalized (mirrored) camera coordinates, 0..1
+  | { type: 'add-photo'; url: string; caption?: string }          // http(s) URL (CORS permitting) or data: URL
+  | { type: 'set-shape'; id: ShapeId; text?: string; scale?: number } // Not 'image', there's no way to send the picture
+  | { type: 'get-state' };                                         // Answered with a 'state' event
+
+export type RemoteControlSource = InputMode | 'remote';
+
+// Scene -> controllers
+export type RemoteControlEvent =
+  | { type: 'gesture'; state: GestureState; source: RemoteControlSource } // Every gesture the input produces
+  | { type: 'dynamic-gesture'; gesture: DynamicGesture }                  // Swipes & waves from hand tracking
+  | { type: 'state'; gesture: GestureState; shape: SharedShape; photoCount: number };
+
+// Optional WebSocket bridge for the remote control API; same-origin pages always work without it
+export interface RemoteControlSettings {
+  bridgeEnabled: boolean;
+  bridgeUrl: string;
+}
@@ -0,0 +1,52 @@
+import * as THREE from 'three';
+import { AnalogParams, HandLandmark } from '../types';
+import { MIDDLE_MCP, WRIST, extractHandFeatures } from './gestureClassifier';
+
+// Palm size (normalized image units) at the far / near end of the usable depth range
+const FAR_PALM = 0.08;
+const NEAR_PALM = 0.28;
+
+// Thumb-index distance (palm units) for a fully open / fully closed pinch
+const PINCH_OPEN = 1.5;
+const PINCH_CLOSED = 0.25;
+
+// Keep FOCUSED while the pinch is at least this closed, so opening it gradually releases the photo
+export const PINCH_HOLD = 0.5;
+
+export const computeAnalogParams = (hand: HandLandmark[]): AnalogParams => {
+  const features = extractHandFeatures(hand);
+  const wrist = hand[WRIST];
+  const knuckle = hand[MIDDLE_MCP];
+
+  // Wrist -> middle knuckle in screen space (mirrored x, y up)
+  const dx = -(knuckle.x - wrist.x);
+  const dy = -(knuckle.y - wrist.y);
+
+  return {
+    roll: Math.atan2(-dx, dy),
+    depth: THREE.MathUtils.clamp((features.palmSize - FAR_PALM) / (NEAR_PALM - FAR_PALM), 0, 1),
+    pinch: THREE.MathUtils.clamp((PINCH_OPEN - features.pinch) / (PINCH_OPEN - PINCH_CLOSED), 0, 1),
+  };
+};
+
+// V-Sign spin speed (rad/s). Upright hand keeps the classic speed of 2,
+// tilting left speeds up, tilting right slows down and then reverses.
+export const getSpinSpeed = (analog: AnalogParams | null) => {
+  if (!analog) return 2;
+  return THREE.MathUtils.clamp(2 + analog.roll * 4, -6, 6);
+};
+
+// How strongly a photo is focused (0..1). Full focus without hand tracking (mouse mode)
+export const getFocusLevel = (analog: AnalogParams | null) => {
+  if (!analog) return 1;
+  return 0.2 + 0.8 * THREE.MathUtils.smoothstep(analog.pinch, PINCH_HOLD, 0.95);
+};
+
+export const MAX_VIEWER_ZOOM = 4;
+
+// Zoom of the focused photo (1 = whole photo in view). Opening the pinch zooms in, like spreading two
+// fingers on a touch screen, and reaches MAX_VIEWER_ZOOM just before PINCH_HOLD lets go of the photo
+export const getViewerZoom = (analog: AnalogParams | null) => {
+  if (!analog) return 1;
+  return THREE.MathUtils.lerp(MAX_VIEWER_ZOOM, 1, THREE.MathUtils.smoothstep(analog.pinch, PINCH_HOLD + 0.1, 0.9));
+};
@@ -0,0 +1,134 @@
+import { AudioLevels } from '../types';
+
+const FFT_SIZE = 1024;
+
+// Band edges in Hz
+const BASS = [20, 150];
+const MID = [150, 2000];
+const TREBLE = [2000, 8000];
+
+// Beat = bass clearly above its recent average, at most one per BEAT_COOLDOWN
+const HISTORY_SECONDS = 1;
+const BEAT_RATIO = 1.35;
+const BEAT_MIN_BASS = 0.3;
+const BEAT_COOLDOWN = 0.25; // Seconds (240 bpm)
+const BEAT_DECAY = 8;       // Per second
+
+// Music from a file (played out loud) or the microphone (analysed only), analysed once per
+// animation frame. Scene components read `levels` in their useFrame like the other input refs
+export const createAudioAnalyzer = () => {
+  let context: AudioContext | null = null;
+  let analyser: AnalyserNode | null = null;
+  let bins = new Uint8Array(0);
+  let source: AudioNode | null = null;
+  let element: HTMLAudioElement | null = null;
+  let trackUrl: string | null = null;
+  let stream: MediaStream | null = null;
+  let request = 0;
+
+  const levels: AudioLevels = { bass: 0, mid: 0, treble: 0, beat: 0, beatCount: 0 };
+  let history: { time: number; bass: number }[] = [];
+  let lastBeat = -Infinity;
+  let lastTime = 0;
+
+  // Created on first use: browsers only allow audio after a user gesture
+  const getContext = () => {
+    if (!context) context = new AudioContext();
+    if (context.state === 'suspended') context.resume();
+    return context;
+  };
+
+  const getAnalyser = () => {
+    if (!analyser) {
+      analyser = getContext().createAnalyser();
+      analyser.fftSize = FFT_SIZE;
+      analyser.smoothingTimeConstant = 0.6;
+      bins = new Uint8Array(analyser.frequencyBinCount);
+    }
+    return analyser;
+  };
+
+  const bandEnergy = ([low, high]: number[]) => {
+    const binWidth = context!.sampleRate / FFT_SIZE;
+    const from = Math.max(1, Math.floor(low / binWidth));
+    const to = Math.min(bins.length - 1, Math.ceil(high / binWidth));
+    let sum = 0;
+    for (let i = from; i <= to; i++) sum += bins[i];
+    return to >= from ? sum / ((to - from + 1) * 255) : 0;
+  };
+
+  const tick = () => {
+    const time = performance.now() / 1000;
+    const delta = lastTime ? time - lastTime : 0;
+    lastTime = time;
+
+    analyser!.getByteFrequencyData(bins);
+    levels.bass = bandEnergy(BASS);
+    levels.mid = bandEnergy(MID);
+    levels.treble = bandEnergy(TREBLE);
+
+    history = history.filter(entry => time - entry.time < HISTORY_SECONDS);
+    const average = history.reduce((sum, entry) => sum + entry.bass, 0) / Math.max(history.length, 1);
+    history.push({ time, bass: levels.bass });
+
+    if (levels.bass > BEAT_MIN_BASS && levels.bass > average * BEAT_RATIO && time - lastBeat > BEAT_COOLDOWN) {
+      lastBeat = time;
+      levels.beat = 1;
+      levels.beatCount++;
+    } else {
+      levels.beat *= Math.exp(-BEAT_DECAY * delta);
+    }
+
+    request = requestAnimationFrame(tick);
+  };
+
+  const start = (node: AudioNode) => {
+    source = node;
+    source.connect(getAnalyser());
+    lastTime = 0;
+    request = requestAnimationFrame(tick);
+  };
+
+  const stop = () => {
+    cancelAnimationFrame(request);
+    source?.disconnect();
+    source = null;
+    element?.pause();
+    element = null;
+    if (trackUrl) URL.revokeObjectURL(trackUrl);
+    trackUrl = null;
+    stream?.getTracks().forEach(track => track.stop());
+    stream = null;
+    history = [];
+    Object.assign(levels, { bass: 0, mid: 0, treble: 0, beat: 0 });
+  };
+
+  return {
+    levels,
+    getContext,
+    // Loops the track through the speakers
+    async playTrack(file: Blob) {
+      stop();
+      const ctx = getContext();
+      trackUrl = URL.createObjectURL(file);
+      element = new Audio(trackUrl);
+      element.loop = true;
+      const node = ctx.createMediaElementSource(element);
+      node.connect(ctx.destination);
+      start(node);
+      await element.play();
+    },
+    // Not routed to the speakers (feedback); raw signal so quiet bass isn't filtered away
+    async listenToMicrophone() {
+      stop();
+      const ctx = getContext();
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+      });
+      start(ctx.createMediaStreamSource(stream));
+    },
+    stop,
+  };
+};
+
+export type AudioAnalyzer = ReturnType<typeof createAudioAnalyzer>;
@@ -0,0 +1,105 @@
+import { CalibrationPose, CalibrationProfile, GestureThresholds, HandFeatures } from '../types';
+import { DEFAULT_THRESHOLDS } from './gestureClassifier';
+
+const STORAGE_KEY = 'heart_cloud_calibration';
+const PROFILE_VERSION = 1;
+
+export const CALIBRATION_STEPS: { pose: CalibrationPose; label: string; instruction: string }[] = [
+  { pose: 'OPEN', label: 'Open Hand', instruction: 'Spread all five fingers wide, palm facing the camera.' },
+  { pose: 'FIST', label: 'Fist', instruction: 'Close your hand into a relaxed fist.' },
+  { pose: 'V_SIGN', label: 'V-Sign', instruction: 'Raise index and middle finger, curl the others.' },
+  { pose: 'PINCH', label: 'Pinch', instruction: 'Touch thumb and index tips, keep the other fingers open.' },
+];
+
+export const averageFeatures = (samples: HandFeatures[]): HandFeatures => {
+  const sum = samples.reduce((acc, s) => ({
+    palmSize: acc.palmSize + s.palmSize,
+    pinch: acc.pinch + s.pinch,
+    index: acc.index + s.index,
+    middle: acc.middle + s.middle,
+    ring: acc.ring + s.ring,
+    pinky: acc.pinky + s.pinky,
+  }), { palmSize: 0, pinch: 0, index: 0, middle: 0, ring: 0, pinky: 0 });
+
+  const n = Math.max(samples.length, 1);
+  return {
+    palmSize: sum.palmSize / n,
+    pinch: sum.pinch / n,
+    index: sum.index / n,
+    middle: sum.middle / n,
+    ring: sum.ring / n,
+    pinky: sum.pinky / n,
+  };
+};
+
+const mid = (a: number, b: number) => (a + b) / 2;
+
+// Place every threshold halfway between the poses it has to tell apart
+export const deriveThresholds = (poses: Record<CalibrationPose, HandFeatures>): GestureThresholds => {
+  const { OPEN: open, FIST: fist, V_SIGN: vSign, PINCH: pinch } = poses;
+
+  const curled = Math.max(fist.ring, fist.pinky, vSign.ring, vSign.pinky);
+  const extended = Math.min(open.ring, open.pinky, open.index, open.middle, vSign.index, vSign.middle);
+  const fistReach = Math.max(fist.index, fist.middle);
+
+  const avg = (f: HandFeatures) => (f.index + f.middle + f.ring + f.pinky) / 4;
+  const pinchMax = mid(pinch.pinch, Math.min(open.pinch, vSign.pinch));
+
+  const thresholds: GestureThresholds = {
+    pinchMax,
+    pinchReleaseMin: Math.max(pinchMax, mid(pinchMax, vSign.pinch)),
+    extendedMin: mid(fistReach, Math.min(vSign.index, vSign.middle)),
+    curledMax: mid(curled, extended),
+    fistMax: mid(avg(fist), avg(open)),
+  };
+
+  // If the recorded poses overlap (e.g. a sloppy fist), fall back per-threshold
+  // to the defaults rather than producing a classifier that never fires
+  (Object.keys(thresholds) as (keyof GestureThresholds)[]).forEach((key) => {
+    if (!Number.isFinite(thresholds[key]) || thresholds[key] <= 0) {
+      thresholds[key] = DEFAULT_THRESHOLDS[key];
+    }
+  });
+  if (thresholds.extendedMin <= thresholds.curledMax) {
+    thresholds.extendedMin = DEFAULT_THRESHOLDS.extendedMin;
+    thresholds.curledMax = DEFAULT_THRESHOLDS.curledMax;
+  }
+
+  return thresholds;
+};
+
+export const createCalibrationProfile = (poses: Record<CalibrationPose, HandFeatures>): CalibrationProfile => ({
+  version: PROFILE_VERSION,
+  createdAt: Date.now(),
+  thresholds: deriveThresholds(poses),
+});
+
+const isValidProfile = (value: any): value is CalibrationProfile => {
+  if (!value || value.version !== PROFILE_VERSION || !value.thresholds) return false;
+  return (Object.keys(DEFAULT_THRESHOLDS) as (keyof GestureThresholds)[])
+    .every(key => typeof value.thresholds[key] === 'number' && Number.isFinite(value.thresholds[key]));
+};
+
+export const loadCalibrationProfile = (): CalibrationProfile | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return null;
+    const parsed = JSON.parse(saved);
+    return isValidProfile(parsed) ? parsed : null;
+  } catch (e) {
+    console.error("Failed to load calibration profile", e);
+    return null;
+  }
+};
+
+export const saveCalibrationProfile = (profile: CalibrationProfile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (e) {
+    console.warn("Failed to save calibration profile", e);
+  }
+};
+
+export const clearCalibrationProfile = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
\ No newline at end of file
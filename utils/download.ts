@@ -0,0 +1,16 @@
+// Save a Blob through a temporary <a download> link
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadJson = (data: unknown, filename: string) => {
+  downloadBlob(new Blob([JSON.stringify(data)], { type: 'application/json' }), filename);
+};
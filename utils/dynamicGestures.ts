@@ -0,0 +1,117 @@
+import { DynamicGesture, GestureState, TrackedHand } from '../types';
+import { WRIST } from './gestureClassifier';
+
+export interface DynamicGestureOptions {
+  swipeWindowMs?: number;   // A swipe must cover swipeDistance within this time
+  swipeDistance?: number;   // Screen fraction (0..1) the wrist has to travel
+  waveWindowMs?: number;    // Time window in which the direction changes are counted
+  waveReversals?: number;   // Left/right direction changes that make a wave
+  waveAmplitude?: number;   // Minimum screen fraction of each wave stroke
+  cooldownMs?: number;      // Ignore new gestures right after one fired
+}
+
+export const DEFAULT_WAVE_WINDOW_MS = 1200;
+
+interface Sample {
+  t: number;
+  x: number; // Screen space: mirrored x, 0 = left
+  y: number; // Screen space: 0 = bottom
+  open: boolean;
+}
+
+// Detects swipes and waves from the recent wrist trajectory of the primary hand
+export const createDynamicGestureDetector = ({
+  swipeWindowMs = 350,
+  swipeDistance = 0.25,
+  waveWindowMs = DEFAULT_WAVE_WINDOW_MS,
+  waveReversals = 3,
+  waveAmplitude = 0.04,
+  cooldownMs = 700,
+}: DynamicGestureOptions = {}) => {
+  let history: Sample[] = [];
+  let cooldownUntil = -Infinity;
+
+  const fire = (gesture: DynamicGesture, timestamp: number) => {
+    history = [];
+    cooldownUntil = timestamp + cooldownMs;
+    return gesture;
+  };
+
+  const detectSwipe = (timestamp: number): DynamicGesture | null => {
+    const recent = history.filter(s => timestamp - s.t <= swipeWindowMs);
+    if (recent.length < 3) return null;
+
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const dx = last.x - first.x;
+    const dy = last.y - first.y;
+
+    // Mostly horizontal or mostly vertical, never diagonal
+    if (Math.abs(dx) > swipeDistance && Math.abs(dx) > 2 * Math.abs(dy)) {
+      return dx > 0 ? 'SWIPE_RIGHT' : 'SWIPE_LEFT';
+    }
+    if (dy > swipeDistance && dy > 2 * Math.abs(dx)) {
+      return 'SWIPE_UP';
+    }
+    return null;
+  };
+
+  const detectWave = (): DynamicGesture | null => {
+    // Waving is done with an open palm
+    const openRatio = history.filter(s => s.open).length / Math.max(history.length, 1);
+    if (history.length < 8 || openRatio < 0.8) return null;
+
+    let reversals = 0;
+    let direction = 0;          // +1 moving right, -1 moving left, 0 not started
+    let anchor = history[0].x;  // Extreme point of the current stroke
+
+    for (const sample of history) {
+      const delta = sample.x - anchor;
+      if (direction === 0) {
+        if (Math.abs(delta) > waveAmplitude) {
+          direction = Math.sign(delta);
+          anchor = sample.x;
+        }
+      } else if (delta * direction > 0) {
+        anchor = sample.x; // Stroke continues
+      } else if (Math.abs(delta) > waveAmplitude) {
+        // Turned around by more than the minimum stroke
+        reversals++;
+        direction = -direction;
+        anchor = sample.x;
+      }
+    }
+
+    return reversals >= waveReversals ? 'WAVE' : null;
+  };
+
+  return {
+    // hand = primary hand this frame (null if none). timestamp in milliseconds
+    update(hand: TrackedHand | null, timestamp: number): DynamicGesture | null {
+      if (!hand) {
+        history = [];
+        return null;
+      }
+
+      const wrist = hand.landmarks[WRIST];
+      history.push({ t: timestamp, x: 1 - wrist.x, y: 1 - wrist.y, open: hand.gesture === GestureState.DISPERSED });
+      history = history.filter(s => timestamp - s.t <= waveWindowMs);
+
+      if (timestamp < cooldownUntil) return null;
+
+      const swipe = detectSwipe(timestamp);
+      if (swipe) return fire(swipe, timestamp);
+
+      const wave = detectWave();
+      if (wave) return fire(wave, timestamp);
+
+      return null;
+    },
+    reset() {
+      history = [];
+      cooldownUntil = -Infinity;
+    },
+  };
+};
+
+export type DynamicGestureDetector = ReturnType<typeof createDynamicGestureDetector>;
\ No newline at end of file
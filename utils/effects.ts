@@ -0,0 +1,78 @@
+import { EffectsQuality } from '../types';
+
+const STORAGE_KEY = 'heart_cloud_effects';
+
+export interface EffectsSettings {
+  multisampling: number;
+  bloomIntensity: number;
+  bloomMipmap: boolean;      // Smoother, wider glow but more passes
+  bloomResolution: number;   // Resolution scale of the bloom passes
+  depthOfField: boolean;
+  bokehScale: number;        // Blur size of the out-of-focus photos
+  dofResolution: number;
+  vignette: boolean;
+}
+
+export const EFFECTS_QUALITY_LEVELS: { id: EffectsQuality; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'low', label: 'Low' },
+  { id: 'medium', label: 'Medium' },
+  { id: 'high', label: 'High' },
+];
+
+export const DEFAULT_EFFECTS_QUALITY: EffectsQuality = 'medium';
+
+// 'off' has no settings: the composer isn't mounted at all
+export const EFFECTS_SETTINGS: Record<Exclude<EffectsQuality, 'off'>, EffectsSettings> = {
+  low: {
+    multisampling: 0,
+    bloomIntensity: 0.8,
+    bloomMipmap: false,
+    bloomResolution: 0.5,
+    depthOfField: false,
+    bokehScale: 0,
+    dofResolution: 0.5,
+    vignette: true,
+  },
+  medium: {
+    multisampling: 0,
+    bloomIntensity: 1,
+    bloomMipmap: true,
+    bloomResolution: 0.5,
+    depthOfField: true,
+    bokehScale: 4,
+    dofResolution: 0.5,
+    vignette: true,
+  },
+  high: {
+    multisampling: 4,
+    bloomIntensity: 1.2,
+    bloomMipmap: true,
+    bloomResolution: 1,
+    depthOfField: true,
+    bokehScale: 6,
+    dofResolution: 1,
+    vignette: true,
+  },
+};
+
+export const isEffectsQuality = (value: unknown): value is EffectsQuality =>
+  EFFECTS_QUALITY_LEVELS.some(level => level.id === value);
+
+export const loadEffectsQuality = (): EffectsQuality => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return isEffectsQuality(saved) ? saved : DEFAULT_EFFECTS_QUALITY;
+  } catch (e) {
+    console.error("Failed to load effects quality", e);
+    return DEFAULT_EFFECTS_QUALITY;
+  }
+};
+
+export const saveEffectsQuality = (quality: EffectsQuality) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, quality);
+  } catch (e) {
+    console.warn("Failed to save effects quality", e);
+  }
+};
@@ -0,0 +1,187 @@
+// Minimal capture-date readers: EXIF from JPEG (APP1), PNG (eXIf) and WebP (EXIF chunk),
+// and the movie header of QuickTime / MP4 clips (Live Photo stills are usually HEIC, their .mov is not)
+
+const HEAD_BYTES = 256 * 1024; // Metadata sits at the start of the file
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME = 0x0132;            // IFD0: last modified, the fallback
+const TAG_DATE_TIME_ORIGINAL = 0x9003;   // Exif IFD: when the shutter fired
+const TAG_DATE_TIME_DIGITIZED = 0x9004;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011; // e.g. "+02:00", newer cameras & phones only
+
+const TYPE_ASCII = 2;
+
+const readAscii = (view: DataView, start: number, length: number) => {
+  let text = '';
+  for (let i = 0; i < length && start + i < view.byteLength; i++) {
+    const code = view.getUint8(start + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text;
+};
+
+// Tag -> string value of the ASCII entries of one IFD, plus the Exif IFD offset if present
+const readIfd = (view: DataView, tiff: number, offset: number, little: boolean) => {
+  const values = new Map<number, string>();
+  let exifIfd: number | null = null;
+  const start = tiff + offset;
+  if (start + 2 > view.byteLength) return { values, exifIfd };
+
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const length = view.getUint32(entry + 4, little);
+
+    if (tag === TAG_EXIF_IFD) {
+      exifIfd = view.getUint32(entry + 8, little);
+    } else if (type === TYPE_ASCII) {
+      // Values over 4 bytes live at an offset from the TIFF header
+      const valueStart = length > 4 ? tiff + view.getUint32(entry + 8, little) : entry + 8;
+      values.set(tag, readAscii(view, valueStart, length));
+    }
+  }
+  return { values, exifIfd };
+};
+
+// "YYYY:MM:DD HH:MM:SS" (+ optional "+HH:MM" offset) -> ms since epoch; local time without an offset
+const parseExifDate = (value: string | undefined, offset?: string): number | null => {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  if (year === 0 || month === 0) return null; // Unset camera clock
+
+  const zone = offset?.match(/^([+-])(\d{2}):(\d{2})$/);
+  if (zone) {
+    const minutes = (Number(zone[2]) * 60 + Number(zone[3])) * (zone[1] === '-' ? -1 : 1);
+    return Date.UTC(year, month - 1, day, hour, minute, second) - minutes * 60000;
+  }
+  return new Date(year, month - 1, day, hour, minute, second).getTime();
+};
+
+// TIFF header (the body of every EXIF block) at `tiff`
+const readTiffDate = (view: DataView, tiff: number): number | null => {
+  if (tiff + 8 > view.byteLength) return null;
+  const order = view.getUint16(tiff);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const little = order === 0x4949;
+  if (view.getUint16(tiff + 2, little) !== 42) return null;
+
+  const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+  const exif = ifd0.exifIfd !== null ? readIfd(view, tiff, ifd0.exifIfd, little).values : new Map<number, string>();
+
+  return parseExifDate(exif.get(TAG_DATE_TIME_ORIGINAL), exif.get(TAG_OFFSET_TIME_ORIGINAL))
+    ?? parseExifDate(exif.get(TAG_DATE_TIME_DIGITIZED))
+    ?? parseExifDate(ifd0.values.get(TAG_DATE_TIME));
+};
+
+const EXIF_HEADER = 0x45786966; // "Exif"
+
+const findJpegTiff = (view: DataView): number | null => {
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null;
+    const marker = view.getUint8(offset + 1);
+    if (marker === 0xda || marker === 0xd9) return null; // Image data starts, no metadata after this
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === EXIF_HEADER) {
+      return offset + 10;
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const findPngTiff = (view: DataView): number | null => {
+  let offset = 8;
+  while (offset + 8 <= view.byteLength) {
+    const length = view.getUint32(offset);
+    const type = readAscii(view, offset + 4, 4);
+    if (type === 'eXIf') return offset + 8;
+    if (type === 'IDAT' || type === 'IEND') return null;
+    offset += 12 + length;
+  }
+  return null;
+};
+
+const findWebpTiff = (view: DataView): number | null => {
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const type = readAscii(view, offset, 4);
+    const length = view.getUint32(offset + 4, true);
+    if (type === 'EXIF') {
+      // Some encoders keep the JPEG-style "Exif\0\0" prefix
+      const start = offset + 8;
+      return start + 4 <= view.byteLength && view.getUint32(start) === EXIF_HEADER ? start + 6 : start;
+    }
+    offset += 8 + length + (length % 2);
+  }
+  return null;
+};
+
+// Capture date of a photo in ms since epoch, or null when the file has none (or isn't a format we read)
+export const readExifDate = async (file: Blob): Promise<number | null> => {
+  try {
+    const view = new DataView(await file.slice(0, HEAD_BYTES).arrayBuffer());
+    if (view.byteLength < 12) return null;
+
+    let tiff: number | null = null;
+    if (view.getUint16(0) === 0xffd8) {
+      tiff = findJpegTiff(view);
+    } else if (view.getUint32(0) === 0x89504e47) {
+      tiff = findPngTiff(view);
+    } else if (readAscii(view, 0, 4) === 'RIFF' && readAscii(view, 8, 4) === 'WEBP') {
+      tiff = findWebpTiff(view);
+    }
+    return tiff === null ? null : readTiffDate(view, tiff);
+  } catch (e) {
+    console.warn("Could not read EXIF data", e);
+    return null;
+  }
+};
+
+// --- QuickTime / MP4 ---
+
+const QUICKTIME_EPOCH = Date.UTC(1904, 0, 1);
+
+// Box `type` among the boxes between start and end. Only box headers are read, so skipping
+// the media data of a large clip is cheap
+const findBox = async (file: Blob, type: string, start: number, end: number) => {
+  let offset = start;
+  while (offset + 8 <= end) {
+    const head = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    if (head.byteLength < 8) return null;
+    let size = head.getUint32(0);
+    let header = 8;
+    if (size === 1) {
+      size = Number(head.getBigUint64(8)); // 64-bit size follows the type
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset; // Runs to the end
+    }
+    if (size < header) return null;
+    if (readAscii(head, 4, 4) === type) return { start: offset + header, end: offset + size };
+    offset += size;
+  }
+  return null;
+};
+
+// Creation time from the movie header (moov/mvhd, UTC), or null when unset or not a QuickTime / MP4 file
+export const readQuickTimeDate = async (file: Blob): Promise<number | null> => {
+  try {
+    const moov = await findBox(file, 'moov', 0, file.size);
+    const mvhd = moov && await findBox(file, 'mvhd', moov.start, moov.end);
+    if (!mvhd) return null;
+
+    // Version & flags, then the creation time: 64-bit in version 1, 32-bit in version 0
+    const view = new DataView(await file.slice(mvhd.start, mvhd.start + 12).arrayBuffer());
+    const seconds = view.getUint8(0) === 1 ? Number(view.getBigUint64(4)) : view.getUint32(4);
+    return seconds > 0 ? QUICKTIME_EPOCH + seconds * 1000 : null;
+  } catch (e) {
+    console.warn("Could not read the clip's creation date", e);
+    return null;
+  }
+};
@@ -0,0 +1,72 @@
+import { GestureClassifier, GestureState, GestureThresholds, HandFeatures, HandLandmark } from '../types';
+
+// MediaPipe hand landmark indices
+export const WRIST = 0;
+export const THUMB_TIP = 4;
+export const INDEX_TIP = 8;
+export const MIDDLE_MCP = 9;
+export const MIDDLE_TIP = 12;
+export const RING_TIP = 16;
+export const PINKY_TIP = 20;
+
+// Equivalent to the original hard-coded thresholds for a typical palm
+// of ~0.2 normalized image units (e.g. pinch 0.06 / 0.2 = 0.3)
+export const DEFAULT_THRESHOLDS: GestureThresholds = {
+  pinchMax: 0.3,
+  pinchReleaseMin: 0.5,
+  extendedMin: 1.75,
+  curledMax: 1.25,
+  fistMax: 1.25,
+};
+
+// A pinch needs the middle or ring finger away from the wrist, so a fist doesn't count as one.
+// Looser than curledMax on purpose: the original cutoff was 0.2 / 0.2, not the V-sign's 0.25
+const PINCH_OPEN_MIN = 1;
+
+const dist = (p1: HandLandmark, p2: HandLandmark) => Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
+
+export const extractHandFeatures = (hand: HandLandmark[]): HandFeatures => {
+  const wrist = hand[WRIST];
+  // Guard against degenerate detections (all points collapsed)
+  const palmSize = Math.max(dist(wrist, hand[MIDDLE_MCP]), 1e-4);
+
+  return {
+    palmSize,
+    pinch: dist(hand[THUMB_TIP], hand[INDEX_TIP]) / palmSize,
+    index: dist(hand[INDEX_TIP], wrist) / palmSize,
+    middle: dist(hand[MIDDLE_TIP], wrist) / palmSize,
+    ring: dist(hand[RING_TIP], wrist) / palmSize,
+    pinky: dist(hand[PINKY_TIP], wrist) / palmSize,
+  };
+};
+
+export const classifyFeatures = (f: HandFeatures, t: GestureThresholds): GestureState => {
+  // 1. PINCH Detection (Thumb tip close to Index tip)
+  // Priority: Pinch > V-Sign > Fist > Open
+  if (f.pinch < t.pinchMax && (f.middle > PINCH_OPEN_MIN || f.ring > PINCH_OPEN_MIN)) {
+    return GestureState.FOCUSED;
+  }
+
+  // 2. V-SIGN (Peace) Detection
+  // Index & Middle extended, Ring & Pinky curled, not pinching
+  if (f.index > t.extendedMin && f.middle > t.extendedMin && f.ring < t.curledMax && f.pinky < t.curledMax) {
+    if (f.pinch > t.pinchReleaseMin) {
+      return GestureState.ROTATING;
+    }
+  }
+
+  // 3. FIST Detection (All fingertips close to wrist)
+  const avgTipToWrist = (f.index + f.middle + f.ring + f.pinky) / 4;
+  if (avgTipToWrist < t.fistMax) {
+    return GestureState.FORMED;
+  }
+
+  return GestureState.DISPERSED;
+};
+
+export const createThresholdClassifier = (thresholds: GestureThresholds = DEFAULT_THRESHOLDS): GestureClassifier => ({
+  classify: (hand) => {
+    if (!hand || hand.length < 21) return GestureState.DISPERSED;
+    return classifyFeatures(extractHandFeatures(hand), thresholds);
+  },
+});
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { AnalogParams, DynamicGesture, GestureClassifier, GestureFrame, GestureState, HandLandmark, Handedness, TrackedHand } from '../types';
+import { PINCH_HOLD, computeAnalogParams } from './analogGestures';
+import { WRIST } from './gestureClassifier';
+import { GestureStateMachineOptions, createGestureStateMachine } from './gestureStateMachine';
+import { OneEuroFilterOptions, createOneEuroFilter } from './oneEuroFilter';
+import { TwoHandTrackerOptions, createTwoHandTracker } from './twoHandGestures';
+import { DEFAULT_WAVE_WINDOW_MS, DynamicGestureOptions, createDynamicGestureDetector } from './dynamicGestures';
+
+export interface GesturePipelineCallbacks {
+  onGestureChange: (state: GestureState) => void;
+  onHandMove: (x: number, y: number) => void;
+  onGestureFrame?: (frame: GestureFrame) => void; // Every frame, with per-hand & two-hand details
+  // Swipes & waves. focused = the state was FOCUSED during the gesture: a wave's open palm releases
+  // the pinch before the wave is complete, so up to a wave window earlier counts too
+  onDynamicGesture?: (gesture: DynamicGesture, focused: boolean) => void;
+}
+
+export interface GesturePipelineOptions {
+  stateMachine?: GestureStateMachineOptions;
+  positionFilter?: OneEuroFilterOptions;
+  twoHand?: TwoHandTrackerOptions;
+  dynamic?: DynamicGestureOptions;
+}
+
+// Without labels (e.g. old recordings) guess from the screen side
+const guessHandedness = (hand: HandLandmark[]): Handedness => hand[WRIST].x > 0.5 ? 'Left' : 'Right';
+
+// Landmarks -> classifier -> state machine -> callbacks.
+// Shared by every input that produces hand landmarks, so live camera
+// and recorded input go through exactly the same logic.
+export const createGesturePipeline = (
+  classifier: GestureClassifier,
+  callbacks: GesturePipelineCallbacks,
+  options: GesturePipelineOptions = {}
+) => {
+  let activeClassifier = classifier;
+  const stateMachine = createGestureStateMachine(options.stateMachine);
+  const twoHandTracker = createTwoHandTracker(options.twoHand);
+  const dynamicDetector = createDynamicGestureDetector(options.dynamic);
+  const focusWindowMs = options.dynamic?.waveWindowMs ?? DEFAULT_WAVE_WINDOW_MS;
+  // Wrist coordinates are normalized (0..1), so speeds are small -> high beta
+  const filterOptions = options.positionFilter || { minCutoff: 1.5, beta: 4 };
+  const filterX = createOneEuroFilter(filterOptions);
+  const filterY = createOneEuroFilter(filterOptions);
+  const analogFilters = {
+    roll: createOneEuroFilter({ minCutoff: 1, beta: 0.5 }),
+    depth: createOneEuroFilter({ minCutoff: 0.5, beta: 1 }),
+    pinch: createOneEuroFilter({ minCutoff: 1.5, beta: 2 }),
+  };
+  const resetAnalog = () => Object.values(analogFilters).forEach(f => f.reset());
+
+  let emittedState: GestureState | null = null;
+  let handCentered = false;
+  let focusedAt = -Infinity; // Last frame the state was FOCUSED
+
+  const emitState = (state: GestureState) => {
+    if (state !== emittedState) {
+      emittedState = state;
+      callbacks.onGestureChange(state);
+    }
+  };
+
+  return {
+    // timestamp in milliseconds
+    process(hands: HandLandmark[][], timestamp: number, handedness?: Handedness[]) {
+      const tracked: TrackedHand[] = hands.map((landmarks, i) => ({
+        handedness: handedness?.[i] || guessHandedness(landmarks),
+        landmarks,
+        gesture: activeClassifier.classify(landmarks),
+      }));
+      const twoHand = twoHandTracker.update(hands, timestamp);
+
+      let state: GestureState;
+      let analog: AnalogParams | null = null;
+
+      if (tracked.length > 0) {
+        const raw = computeAnalogParams(tracked[0].landmarks);
+        analog = {
+          roll: analogFilters.roll.filter(raw.roll, timestamp),
+          depth: analogFilters.depth.filter(raw.depth, timestamp),
+          pinch: analogFilters.pinch.filter(raw.pinch, timestamp),
+        };
+
+        let gesture = tracked[0].gesture;
+        // Holding the heart between both hands overrides single-hand gestures
+        if (twoHandTracker.isHolding()) {
+          gesture = GestureState.FORMED;
+        } else if (stateMachine.getState() === GestureState.FOCUSED && gesture === GestureState.DISPERSED && analog.pinch > PINCH_HOLD) {
+          // Pinch partially opened: stay focused (focus level follows the pinch) until it's mostly open
+          gesture = GestureState.FOCUSED;
+        }
+        state = stateMachine.update(gesture, timestamp);
+
+        // Process Position (Use Wrist as anchor, midpoint between wrists for two hands)
+        const anchor = twoHand
+          ? { x: (twoHand.left.x + twoHand.right.x) / 2, y: (twoHand.left.y + twoHand.right.y) / 2 }
+          : tracked[0].landmarks[WRIST];
+        callbacks.onHandMove(filterX.filter(anchor.x, timestamp), filterY.filter(anchor.y, timestamp));
+        handCentered = false;
+      } else {
+        state = stateMachine.update(null, timestamp);
+
+        // Hand gone for longer than the grace period -> Relax to center
+        if (!stateMachine.isHandPresent(timestamp) && !handCentered) {
+          filterX.reset();
+          filterY.reset();
+          resetAnalog();
+          callbacks.onHandMove(0.5, 0.5);
+          handCentered = true;
+        }
+      }
+
+      emitState(state);
+      if (state === GestureState.FOCUSED) focusedAt = timestamp;
+
+      // Swipes / waves only make sense with a single hand
+      const dynamic = dynamicDetector.update(tracked.length === 1 ? tracked[0] : null, timestamp);
+      if (dynamic) callbacks.onDynamicGesture?.(dynamic, timestamp - focusedAt <= focusWindowMs);
+
+      callbacks.onGestureFrame?.({ state, hands: tracked, twoHand, analog, timestamp });
+    },
+    setClassifier(next: GestureClassifier) {
+      activeClassifier = next;
+    },
+    reset() {
+      stateMachine.reset();
+      twoHandTracker.reset();
+      dynamicDetector.reset();
+      filterX.reset();
+      filterY.reset();
+      resetAnalog();
+      emittedState = null;
+      handCentered = false;
+      focusedAt = -Infinity;
+    },
+  };
+};
+
+export type GesturePipeline = ReturnType<typeof createGesturePipeline>;
\ No newline at end of file
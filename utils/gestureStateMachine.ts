@@ -0,0 +1,68 @@
+import { GestureState } from '../types';
+
+export interface GestureStateMachineOptions {
+  enterFrames?: number; // Consecutive frames a new gesture must be seen before we switch to it
+  holdMs?: number;      // How long to keep the last gesture when the hand is briefly lost
+}
+
+// Debounces raw per-frame classifications into stable gesture states
+export const createGestureStateMachine = ({ enterFrames = 4, holdMs = 400 }: GestureStateMachineOptions = {}) => {
+  let current = GestureState.DISPERSED;
+  let candidate: GestureState | null = null;
+  let candidateFrames = 0;
+  let lastSeen = -Infinity;
+
+  return {
+    // raw = null when no hand is detected this frame. timestamp in milliseconds
+    update(raw: GestureState | null, timestamp: number): GestureState {
+      if (raw === null) {
+        candidate = null;
+        candidateFrames = 0;
+        // Grace period: a dropped frame or two shouldn't scatter the heart
+        if (timestamp - lastSeen > holdMs) {
+          current = GestureState.DISPERSED;
+        }
+        return current;
+      }
+
+      lastSeen = timestamp;
+
+      if (raw === current) {
+        candidate = null;
+        candidateFrames = 0;
+      } else if (raw === candidate) {
+        candidateFrames++;
+        if (candidateFrames >= enterFrames) {
+          current = raw;
+          candidate = null;
+          candidateFrames = 0;
+        }
+      } else {
+        candidate = raw;
+        candidateFrames = 1;
+        if (candidateFrames >= enterFrames) {
+          current = raw;
+          candidate = null;
+          candidateFrames = 0;
+        }
+      }
+
+      return current;
+    },
+    // Whether the hand is still considered present (seen within the grace period)
+    isHandPresent(timestamp: number) {
+      return timestamp - lastSeen <= holdMs;
+    },
+    getState() {
+      return current;
+    },
+    reset() {
+      current = GestureState.DISPERSED;
+      candidate = null;
+      candidateFrames = 0;
+      lastSeen = -Infinity;
+    },
+  };
+};
+
+export type GestureStateMachine = ReturnType<typeof createGestureStateMachine>;
@@ -0,0 +1,108 @@
+import { StoredPhoto } from '../types';
+import { readExifDate } from './exif';
+
+export const TEXTURE_SIZE = 1024;  // Longest edge of the texture variant
+export const THUMBNAIL_SIZE = 256; // Longest edge of the thumbnail
+
+export const createId = () => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) => {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => blob ? resolve(blob) : reject(new Error("Could not encode image")),
+      type,
+      quality
+    );
+  });
+};
+
+// Downscale so the longest edge is at most maxSize (never upscales)
+export const resizeImage = async (source: ImageBitmap, maxSize: number, quality = 0.85): Promise<Blob> => {
+  const scale = Math.min(1, maxSize / Math.max(source.width, source.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  // WebP keeps transparency and is much smaller than PNG
+  return canvasToBlob(canvas, 'image/webp', quality);
+};
+
+// Decode an uploaded image once and produce every stored variant
+export const processImageFile = async (file: Blob, name: string, createdAt = Date.now()): Promise<StoredPhoto> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const [texture, thumbnail, takenAt] = await Promise.all([
+      resizeImage(bitmap, TEXTURE_SIZE),
+      resizeImage(bitmap, THUMBNAIL_SIZE, 0.75),
+      readExifDate(file),
+    ]);
+
+    return {
+      id: createId(),
+      kind: 'image',
+      createdAt,
+      name,
+      width: bitmap.width,
+      height: bitmap.height,
+      original: file,
+      texture,
+      thumbnail,
+      caption: '',
+      favourite: false,
+      order: createdAt,
+      takenAt,
+      album: '',
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const SHAPE_RASTER_SIZE = 256; // Longest edge when rasterising an image into a particle shape
+
+// Rasterise an uploaded image or SVG for the image shape (see createImageSampler in utils/math.ts)
+export const rasterizeImageFile = async (file: Blob, maxSize = SHAPE_RASTER_SIZE): Promise<ImageData> => {
+  // <img> decodes SVG everywhere, createImageBitmap doesn't
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+
+    // SVGs without a width/height report 0; vectors may be upscaled, bitmaps aren't
+    const width = img.naturalWidth || maxSize;
+    const height = img.naturalHeight || maxSize;
+    const isVector = file.type === 'image/svg+xml';
+    const scale = isVector ? maxSize / Math.max(width, height) : Math.min(1, maxSize / Math.max(width, height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// PNG of a rasterised shape image, so it can travel in a scene bundle
+export const encodeImageData = async (image: ImageData): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.putImageData(image, 0, 0);
+  return canvasToBlob(canvas, 'image/png', 1);
+};
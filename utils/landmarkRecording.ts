@@ -0,0 +1,96 @@
+import { DynamicGesture, GestureState, HandLandmark, Handedness, LandmarkFrame, LandmarkRecording } from '../types';
+
+export const RECORDING_VERSION = 1;
+
+// 4 decimals is well below MediaPipe's own jitter and keeps files small
+const round = (v: number) => Math.round(v * 10000) / 10000;
+
+const compactHand = (hand: HandLandmark[]): HandLandmark[] =>
+  hand.map(p => ({ x: round(p.x), y: round(p.y), z: round(p.z) }));
+
+// Collects detectForVideo results (and the gesture transitions they produced)
+export const createLandmarkRecorder = () => {
+  let frames: LandmarkFrame[] = [];
+  let transitions: GestureState[] = [];
+  let startTime: number | null = null;
+  let recording = false;
+
+  return {
+    // currentState = gesture at the time recording starts
+    start(currentState: GestureState = GestureState.DISPERSED) {
+      frames = [];
+      transitions = [currentState];
+      startTime = null;
+      recording = true;
+    },
+    // timestamp in milliseconds (same clock as detectForVideo)
+    pushFrame(hands: HandLandmark[][], timestamp: number, handedness?: Handedness[]) {
+      if (!recording) return;
+      if (startTime === null) startTime = timestamp;
+      const frame: LandmarkFrame = { t: Math.round(timestamp - startTime), hands: hands.map(compactHand) };
+      if (handedness && handedness.length > 0) frame.handedness = handedness;
+      frames.push(frame);
+    },
+    pushGesture(state: GestureState) {
+      if (!recording) return;
+      if (transitions[transitions.length - 1] !== state) transitions.push(state);
+    },
+    stop(): LandmarkRecording {
+      recording = false;
+      return {
+        version: RECORDING_VERSION,
+        createdAt: Date.now(),
+        frames,
+        // A replay always starts from a fresh pipeline, i.e. DISPERSED
+        expected: [GestureState.DISPERSED, ...transitions].filter((s, i, all) => i === 0 || s !== all[i - 1]),
+      };
+    },
+    isRecording() {
+      return recording;
+    },
+  };
+};
+
+export type LandmarkRecorder = ReturnType<typeof createLandmarkRecorder>;
+
+const DYNAMIC_GESTURES: DynamicGesture[] = ['SWIPE_LEFT', 'SWIPE_RIGHT', 'SWIPE_UP', 'WAVE'];
+
+const isLandmark = (p: any) => p && typeof p.x === 'number' && typeof p.y === 'number' && typeof p.z === 'number';
+
+// Validate untrusted JSON (uploaded file / fixture). Throws with a readable message
+export const parseLandmarkRecording = (data: unknown): LandmarkRecording => {
+  const value = (typeof data === 'string' ? JSON.parse(data) : data) as any;
+
+  if (!value || typeof value !== 'object') throw new Error("Recording is not a JSON object");
+  if (value.version !== RECORDING_VERSION) throw new Error(`Unsupported recording version: ${value.version}`);
+  if (!Array.isArray(value.frames)) throw new Error("Recording has no frames");
+
+  value.frames.forEach((frame: any, i: number) => {
+    if (typeof frame?.t !== 'number' || !Array.isArray(frame.hands)) {
+      throw new Error(`Frame ${i} is malformed`);
+    }
+    frame.hands.forEach((hand: any) => {
+      if (!Array.isArray(hand) || hand.length !== 21 || !hand.every(isLandmark)) {
+        throw new Error(`Frame ${i} has an invalid hand (expected 21 landmarks)`);
+      }
+    });
+    if (frame.handedness !== undefined && (!Array.isArray(frame.handedness) || !frame.handedness.every((h: any) => h === 'Left' || h === 'Right'))) {
+      throw new Error(`Frame ${i} has invalid handedness labels`);
+    }
+  });
+
+  if (value.expected !== undefined) {
+    const states = Object.values(GestureState) as string[];
+    if (!Array.isArray(value.expected) || !value.expected.every((s: any) => states.includes(s))) {
+      throw new Error("Recording has an invalid expected gesture sequence");
+    }
+  }
+  if (value.expectedDynamic !== undefined) {
+    const isEvent = (e: any) => e && DYNAMIC_GESTURES.includes(e.gesture) && typeof e.focused === 'boolean';
+    if (!Array.isArray(value.expectedDynamic) || !value.expectedDynamic.every(isEvent)) {
+      throw new Error("Recording has an invalid expected swipe / wave sequence");
+    }
+  }
+
+  return value as LandmarkRecording;
+};
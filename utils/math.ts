@@ -16,6 +16,13 @@ export const randomInSphere = (radius: number): THREE.Vector3 => {
   );
 };
 
+// Point on the heart's 2D outline (same formula as below), t in [0, 2π); t = 0 is the notch at the top
+export const heartOutline = (t: number, scale: number): THREE.Vector3 => new THREE.Vector3(
+  16 * Math.pow(Math.sin(t), 3),
+  13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t),
+  0
+).multiplyScalar(scale);
+
 // Generate a point INSIDE a 3D Heart volume
 // Heart Formula:
 // x = 16sin^3(t)
@@ -41,4 +48,96 @@ export const randomInHeart = (scale: number): THREE.Vector3 => {
   vec.multiplyScalar(r);
 
   return vec.multiplyScalar(scale);
-};
\ No newline at end of file
+};
+
+// Image sampling: dark pixels still get a few particles so opaque logos keep their outline
+const MIN_BRIGHTNESS_WEIGHT = 0.1;
+
+// Build a sampler over the pixels of an image (or rasterised SVG), weighted by alpha × brightness.
+// Each call returns a point of the silhouette (longest edge = size) and, if given a target,
+// writes the source pixel colour into it. Returns null when no pixel is visible.
+export const createImageSampler = (image: ImageData, size: number, depth = 3) => {
+  const { data, width, height } = image;
+  const cumulative = new Float32Array(width * height);
+
+  let total = 0;
+  for (let i = 0; i < width * height; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    const brightness = (0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2]) / 255;
+    total += alpha * (MIN_BRIGHTNESS_WEIGHT + (1 - MIN_BRIGHTNESS_WEIGHT) * brightness);
+    cumulative[i] = total;
+  }
+  if (total <= 0) return null;
+
+  const scale = size / Math.max(width, height);
+
+  return (colorTarget?: THREE.Color): THREE.Vector3 => {
+    // Binary search the cumulative weights for a random pixel
+    const pick = Math.random() * total;
+    let lo = 0;
+    let hi = cumulative.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulative[mid] < pick) lo = mid + 1;
+      else hi = mid;
+    }
+
+    if (colorTarget) {
+      colorTarget.setRGB(data[lo * 4] / 255, data[lo * 4 + 1] / 255, data[lo * 4 + 2] / 255, THREE.SRGBColorSpace);
+    }
+
+    // Jitter inside the pixel so points don't line up on the raster grid
+    const x = (lo % width) + Math.random() - width / 2;
+    const y = height / 2 - (Math.floor(lo / width) + Math.random());
+    return new THREE.Vector3(x * scale, y * scale, (Math.random() - 0.5) * depth);
+  };
+};
+
+// Radius of a 5-pointed star's boundary at angle t: alternates linearly between outer tips and inner corners
+export const starEdgeRadius = (t: number, outerRadius: number, innerRadius = outerRadius * 0.45): number => {
+  const points = 5;
+  const sector = (Math.PI * 2) / points;
+  const local = Math.abs(((((t + Math.PI * 1.5) % sector) + sector) % sector) / sector - 0.5) * 2; // 1 at tips (top tip up), 0 between
+  return innerRadius + (outerRadius - innerRadius) * local;
+};
+
+// Generate a point inside a 5-pointed star prism
+export const randomInStar = (outerRadius: number, innerRadius = outerRadius * 0.45, depth = 4): THREE.Vector3 => {
+  const t = Math.random() * Math.PI * 2;
+  const edge = starEdgeRadius(t, outerRadius, innerRadius);
+
+  // sqrt(random) -> uniform density over the area
+  const r = Math.sqrt(Math.random()) * edge;
+  return new THREE.Vector3(
+    r * Math.cos(t),
+    r * Math.sin(t),
+    (Math.random() - 0.5) * depth
+  );
+};
+
+// Generate a point in a flat ring (annulus) facing the camera
+export const randomInRing = (radius: number, width: number, depth = 1): THREE.Vector3 => {
+  const t = Math.random() * Math.PI * 2;
+  const inner = radius - width / 2;
+  const outer = radius + width / 2;
+  // Uniform over the annulus area
+  const r = Math.sqrt(inner * inner + Math.random() * (outer * outer - inner * inner));
+  return new THREE.Vector3(
+    r * Math.cos(t),
+    r * Math.sin(t),
+    (Math.random() - 0.5) * depth
+  );
+};
+
+// Generate a point inside a torus (tube around a circle in the XY plane)
+export const randomInTorus = (majorRadius: number, minorRadius: number): THREE.Vector3 => {
+  const u = Math.random() * Math.PI * 2; // Around the ring
+  const v = Math.random() * Math.PI * 2; // Around the tube
+  const r = Math.sqrt(Math.random()) * minorRadius;
+  const ring = majorRadius + r * Math.cos(v);
+  return new THREE.Vector3(
+    ring * Math.cos(u),
+    ring * Math.sin(u),
+    r * Math.sin(v)
+  );
+};
@@ -0,0 +1,48 @@
+// One Euro Filter (Casiez et al. 2012)
+// Adaptive low-pass filter: heavy smoothing when the hand is still (kills jitter),
+// light smoothing when it moves fast (keeps latency low).
+export interface OneEuroFilterOptions {
+  minCutoff?: number; // Hz. Lower = smoother at rest
+  beta?: number;      // Speed coefficient. Higher = less lag when moving fast
+  dCutoff?: number;   // Hz. Cutoff for the derivative estimate
+}
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+export const createOneEuroFilter = ({ minCutoff = 1.0, beta = 0.007, dCutoff = 1.0 }: OneEuroFilterOptions = {}) => {
+  let prevValue: number | null = null;
+  let prevDerivative = 0;
+  let prevTime = 0;
+
+  return {
+    // timestamp in milliseconds
+    filter(value: number, timestamp: number): number {
+      if (prevValue === null) {
+        prevValue = value;
+        prevTime = timestamp;
+        return value;
+      }
+
+      const dt = Math.max((timestamp - prevTime) / 1000, 1e-3);
+      prevTime = timestamp;
+
+      const derivative = (value - prevValue) / dt;
+      const aD = smoothingFactor(dCutoff, dt);
+      prevDerivative = aD * derivative + (1 - aD) * prevDerivative;
+
+      const cutoff = minCutoff + beta * Math.abs(prevDerivative);
+      const a = smoothingFactor(cutoff, dt);
+      prevValue = a * value + (1 - a) * prevValue;
+      return prevValue;
+    },
+    reset() {
+      prevValue = null;
+      prevDerivative = 0;
+    },
+  };
+};
+
+export type OneEuroFilter = ReturnType<typeof createOneEuroFilter>;
@@ -0,0 +1,110 @@
+// GLSL for the GPU particle cloud (see utils/particleSimulation.ts and components/HeartParticles.tsx)
+
+// Velocity pass: every texel is one particle (xyz = velocity). A damped spring pulls each
+// particle towards its formed or dispersed target; in force-field mode the hand pushes
+// (or pulls) nearby particles and stirs them around itself.
+export const VELOCITY_SHADER = /* glsl */ `
+uniform sampler2D tFormed;
+uniform sampler2D tDispersed; // w = noise phase
+uniform float uFormed;        // 0 = dispersed target, 1 = formed target
+uniform float uSplit;         // 1 = left / right halves follow each hand
+uniform vec3 uLeftOffset;
+uniform vec3 uRightOffset;
+uniform float uTime;
+uniform float uDelta;
+uniform float uStiffness;
+uniform float uDamping;
+uniform vec3 uHand;           // Hand position in particle space
+uniform vec3 uHandVelocity;
+uniform float uForce;         // > 0 repels, < 0 attracts, 0 = no force field
+uniform float uRadius;
+uniform float uSwirl;
+uniform float uDrag;          // How strongly the hand drags particles along
+
+void main() {
+  vec2 uv = gl_FragCoord.xy / resolution.xy;
+  vec3 position = texture2D(tPosition, uv).xyz;
+  vec3 velocity = texture2D(tVelocity, uv).xyz;
+  vec4 dispersed = texture2D(tDispersed, uv);
+
+  vec3 target = mix(dispersed.xyz, texture2D(tFormed, uv).xyz, uFormed);
+  if (uSplit > 0.5) {
+    target += target.x < 0.0 ? uLeftOffset : uRightOffset;
+  }
+  target.y += sin(uTime * 2.0 + dispersed.w) * 0.1;
+
+  vec3 acceleration = (target - position) * uStiffness - velocity * uDamping;
+
+  if (uForce != 0.0) {
+    vec3 away = position - uHand;
+    float dist = length(away);
+    if (dist < uRadius) {
+      float falloff = 1.0 - dist / uRadius;
+      falloff *= falloff;
+      vec3 direction = away / (dist + 0.5);
+      acceleration += direction * uForce * falloff;
+      acceleration += cross(vec3(0.0, 0.0, 1.0), direction) * uSwirl * falloff;
+      acceleration += uHandVelocity * uDrag * falloff;
+    }
+  }
+
+  gl_FragColor = vec4(velocity + acceleration * uDelta, 1.0);
+}
+`;
+
+// Position pass: integrate the velocity (xyz = position)
+export const POSITION_SHADER = /* glsl */ `
+uniform float uDelta;
+
+void main() {
+  vec2 uv = gl_FragCoord.xy / resolution.xy;
+  vec3 position = texture2D(tPosition, uv).xyz;
+  vec3 velocity = texture2D(tVelocity, uv).xyz;
+  gl_FragColor = vec4(position + velocity * uDelta, 1.0);
+}
+`;
+
+export const PARTICLE_VERTEX_SHADER = /* glsl */ `
+uniform sampler2D tPosition;
+uniform float uTime;
+uniform float uSize;       // World-space diameter
+uniform float uPixelScale; // Drawing buffer height / (2 * tan(fov / 2))
+uniform float uColorMix;   // Colour morph progress from aColorFrom to aColorTo
+uniform float uTwinkle;    // Twinkle amplitude (pulses with the bass when music is on)
+
+attribute vec2 aRef;       // Texel of this particle in the position texture
+attribute float aPhase;
+attribute vec3 aColorFrom;
+attribute vec3 aColorTo;
+
+varying vec3 vColor;
+
+void main() {
+  vec3 pos = texture2D(tPosition, aRef).xyz;
+  vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+
+  // Twinkle
+  float twinkle = 1.0 + sin(uTime * 3.0 + aPhase) * uTwinkle;
+  gl_PointSize = uSize * twinkle * uPixelScale / -mvPosition.z;
+  gl_Position = projectionMatrix * mvPosition;
+
+  vColor = mix(aColorFrom, aColorTo, uColorMix);
+}
+`;
+
+export const PARTICLE_FRAGMENT_SHADER = /* glsl */ `
+uniform float uOpacity;
+uniform vec3 uEmissive;
+
+varying vec3 vColor;
+
+void main() {
+  // Round, soft-edged sprite
+  float d = length(gl_PointCoord - 0.5);
+  if (d > 0.5) discard;
+  float alpha = smoothstep(0.5, 0.2, d);
+
+  gl_FragColor = vec4(vColor + uEmissive, alpha * uOpacity);
+  #include <colorspace_fragment>
+}
+`;
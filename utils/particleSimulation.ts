@@ -0,0 +1,129 @@
+import * as THREE from 'three';
+import { GPUComputationRenderer } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+import { POSITION_SHADER, VELOCITY_SHADER } from './particleShaders';
+
+export interface ParticleSimulationParams {
+  time: number;    // Seconds
+  delta: number;   // Seconds since the last frame
+  formed: boolean; // Head for the formed target instead of the dispersed one
+  split: boolean;  // Left / right halves follow each hand
+  leftOffset: THREE.Vector3;
+  rightOffset: THREE.Vector3;
+  force: number;   // Hand force field: > 0 repels, < 0 attracts, 0 = off
+  hand: THREE.Vector3;         // Hand position in particle space
+  handVelocity: THREE.Vector3; // Units per second, particle space
+}
+
+// Spring towards the target. Settles in about as long as the old 0.05-per-frame lerp,
+// slightly underdamped so the cloud swirls a little before it comes to rest
+const STIFFNESS = 9;
+const SPRING_DAMPING = 4.5;
+
+// Hand force field
+const FIELD_RADIUS = 12;
+const FIELD_SWIRL = 60;
+const FIELD_DRAG = 2;
+
+// Large frame gaps (tab switches) would make the spring explode
+const MAX_DELTA = 1 / 30;
+
+// Copy xyz triplets (and an optional w channel) into an RGBA float texture
+const writeTexture = (texture: THREE.DataTexture, xyz: Float32Array, w?: Float32Array) => {
+  const data = texture.image.data as Float32Array;
+  const count = xyz.length / 3;
+  for (let i = 0; i < count; i++) {
+    data[i * 4] = xyz[i * 3];
+    data[i * 4 + 1] = xyz[i * 3 + 1];
+    data[i * 4 + 2] = xyz[i * 3 + 2];
+    data[i * 4 + 3] = w ? w[i] : 1;
+  }
+  texture.needsUpdate = true;
+};
+
+export const PARTICLE_COUNTS = [5000, 20000, 100000, 300000];
+export const DEFAULT_PARTICLE_COUNT = 5000;
+
+// Side of the square position texture that holds `count` particles
+export const getSimulationSize = (count: number) => Math.ceil(Math.sqrt(count));
+
+// Particle positions & velocities live in float textures (one texel per particle) updated on the GPU
+export const createParticleSimulation = (
+  renderer: THREE.WebGLRenderer,
+  count: number,
+  dispersed: Float32Array,   // xyz per particle
+  noisePhases: Float32Array, // One per particle
+) => {
+  const size = getSimulationSize(count);
+  const gpu = new GPUComputationRenderer(size, size, renderer);
+
+  const dispersedTexture = gpu.createTexture();
+  writeTexture(dispersedTexture, dispersed, noisePhases);
+  const formedTexture = gpu.createTexture();
+  writeTexture(formedTexture, dispersed);
+
+  // Particles start out dispersed and at rest
+  const initialPosition = gpu.createTexture();
+  writeTexture(initialPosition, dispersed);
+  const initialVelocity = gpu.createTexture();
+
+  const velocityVariable = gpu.addVariable('tVelocity', VELOCITY_SHADER, initialVelocity);
+  const positionVariable = gpu.addVariable('tPosition', POSITION_SHADER, initialPosition);
+  gpu.setVariableDependencies(velocityVariable, [velocityVariable, positionVariable]);
+  gpu.setVariableDependencies(positionVariable, [velocityVariable, positionVariable]);
+
+  const velocityUniforms = velocityVariable.material.uniforms;
+  velocityUniforms.tFormed = { value: formedTexture };
+  velocityUniforms.tDispersed = { value: dispersedTexture };
+  velocityUniforms.uFormed = { value: 0 };
+  velocityUniforms.uSplit = { value: 0 };
+  velocityUniforms.uLeftOffset = { value: new THREE.Vector3() };
+  velocityUniforms.uRightOffset = { value: new THREE.Vector3() };
+  velocityUniforms.uTime = { value: 0 };
+  velocityUniforms.uDelta = { value: 0 };
+  velocityUniforms.uStiffness = { value: STIFFNESS };
+  velocityUniforms.uDamping = { value: SPRING_DAMPING };
+  velocityUniforms.uHand = { value: new THREE.Vector3() };
+  velocityUniforms.uHandVelocity = { value: new THREE.Vector3() };
+  velocityUniforms.uForce = { value: 0 };
+  velocityUniforms.uRadius = { value: FIELD_RADIUS };
+  velocityUniforms.uSwirl = { value: FIELD_SWIRL };
+  velocityUniforms.uDrag = { value: FIELD_DRAG };
+
+  const positionUniforms = positionVariable.material.uniforms;
+  positionUniforms.uDelta = { value: 0 };
+
+  const error = gpu.init();
+  if (error) throw new Error(`Particle simulation unavailable: ${error}`);
+
+  return {
+    size,
+    // New formed target (xyz per particle); particles spring over on their own
+    setFormed(positions: Float32Array) {
+      writeTexture(formedTexture, positions);
+    },
+    update({ time, delta, formed, split, leftOffset, rightOffset, force, hand, handVelocity }: ParticleSimulationParams) {
+      const dt = Math.min(delta, MAX_DELTA);
+      velocityUniforms.uFormed.value = formed ? 1 : 0;
+      velocityUniforms.uSplit.value = split ? 1 : 0;
+      velocityUniforms.uLeftOffset.value.copy(leftOffset);
+      velocityUniforms.uRightOffset.value.copy(rightOffset);
+      velocityUniforms.uTime.value = time;
+      velocityUniforms.uDelta.value = dt;
+      velocityUniforms.uForce.value = force;
+      velocityUniforms.uHand.value.copy(hand);
+      velocityUniforms.uHandVelocity.value.copy(handVelocity);
+      positionUniforms.uDelta.value = dt;
+      gpu.compute();
+    },
+    getPositionTexture() {
+      return gpu.getCurrentRenderTarget(positionVariable).texture;
+    },
+    dispose() {
+      gpu.dispose();
+      dispersedTexture.dispose();
+      formedTexture.dispose();
+    },
+  };
+};
+
+export type ParticleSimulation = ReturnType<typeof createParticleSimulation>;
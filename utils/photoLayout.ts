@@ -0,0 +1,176 @@
+import * as THREE from 'three';
+import { PhotoLayout, PhotoRecord, ShapeSelection } from '../types';
+import { ShapeOutline, createShapeSampler, getShapeOutline } from './shapes';
+
+const STORAGE_KEY = 'heart_cloud_photo_layout';
+
+export const PHOTO_LAYOUTS: { id: PhotoLayout; label: string }[] = [
+  { id: 'scatter', label: 'Scattered' },
+  { id: 'surface', label: 'Evenly spread' },
+  { id: 'timeline', label: 'Timeline (photo date)' },
+  { id: 'albums', label: 'Album clusters' },
+];
+
+export interface PhotoPlacement {
+  dispersed: THREE.Vector3;
+  formed: THREE.Vector3;
+}
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+const CANDIDATES_PER_POINT = 30;  // Shape samples per photo to pick the spread from
+const OUTLINE_STEPS = 512;        // Polyline resolution for even spacing along an outline
+const TIMELINE_TURNS_PER_PHOTO = 1 / 20; // The dispersed timeline winds once every 20 photos
+const CLUSTER_SPACING_DISPERSED = 3.5;   // Between neighbours in a cluster (photos float at scale 3...)
+const CLUSTER_SPACING_FORMED = 1.5;      // ...and sit on the shape at scale 1.2
+
+export const isPhotoLayout = (value: unknown): value is PhotoLayout =>
+  PHOTO_LAYOUTS.some(l => l.id === value);
+
+// n points spread evenly over a sphere's surface
+const fibonacciSphere = (n: number, radius: number): THREE.Vector3[] =>
+  Array.from({ length: n }, (_, i) => {
+    const y = 1 - (2 * (i + 0.5)) / n;
+    const r = Math.sqrt(1 - y * y);
+    const theta = i * GOLDEN_ANGLE;
+    return new THREE.Vector3(Math.cos(theta) * r, y, Math.sin(theta) * r).multiplyScalar(radius);
+  });
+
+// n points of the shape, as far from each other as possible (greedy farthest-point sampling),
+// so photos don't overlap however the shape's volume is distributed
+const spreadOverShape = (selection: ShapeSelection, n: number): THREE.Vector3[] => {
+  if (n === 0) return [];
+  const sample = createShapeSampler(selection);
+  const candidates = Array.from({ length: Math.max(200, n * CANDIDATES_PER_POINT) }, () => sample());
+
+  // Start from the outermost candidate, then keep taking the one farthest from everything picked
+  let next = candidates.reduce((best, p, i) => p.lengthSq() > candidates[best].lengthSq() ? i : best, 0);
+  const nearest = new Float32Array(candidates.length).fill(Infinity);
+  const picked: THREE.Vector3[] = [];
+
+  while (picked.length < n) {
+    const point = candidates[next];
+    picked.push(point);
+    let farthest = 0;
+    for (let i = 0; i < candidates.length; i++) {
+      nearest[i] = Math.min(nearest[i], candidates[i].distanceToSquared(point));
+      if (nearest[i] > nearest[farthest]) farthest = i;
+    }
+    next = farthest;
+  }
+  return picked;
+};
+
+// n points evenly spaced (by arc length) around a closed outline, starting at t = 0
+const spaceAlongOutline = (outline: ShapeOutline, n: number): THREE.Vector3[] => {
+  const points = Array.from({ length: OUTLINE_STEPS + 1 }, (_, i) => outline(i / OUTLINE_STEPS));
+  const lengths = [0];
+  for (let i = 1; i < points.length; i++) lengths.push(lengths[i - 1] + points[i].distanceTo(points[i - 1]));
+  const total = lengths[lengths.length - 1];
+
+  let segment = 1;
+  return Array.from({ length: n }, (_, i) => {
+    const target = (i / n) * total;
+    while (segment < OUTLINE_STEPS && lengths[segment] < target) segment++;
+    const span = lengths[segment] - lengths[segment - 1];
+    const f = span > 0 ? (target - lengths[segment - 1]) / span : 0;
+    return points[segment - 1].clone().lerp(points[segment], f);
+  });
+};
+
+// Sunflower pattern around the origin in the XY plane (faces the camera)
+const sunflowerOffset = (k: number, spacing: number) => {
+  const r = spacing * Math.sqrt(k);
+  return new THREE.Vector3(Math.cos(k * GOLDEN_ANGLE) * r, Math.sin(k * GOLDEN_ANGLE) * r, 0);
+};
+
+// Oldest first; photos without a capture date keep their library order after the dated ones
+const byCaptureDate = (photos: PhotoRecord[]) =>
+  photos
+    .map((photo, index) => ({ photo, index }))
+    .sort((a, b) => (a.photo.takenAt ?? Infinity) - (b.photo.takenAt ?? Infinity) || a.index - b.index)
+    .map(entry => entry.index);
+
+const arrangeSurface = (photos: PhotoRecord[], shape: ShapeSelection, dispersedRadius: number) => {
+  const dispersed = fibonacciSphere(photos.length, dispersedRadius * 0.8);
+  const formed = spreadOverShape(shape, photos.length);
+  return photos.map((_, i) => ({ dispersed: dispersed[i], formed: formed[i] }));
+};
+
+// Along the outline by capture date, and up a slow spiral while dispersed
+const arrangeTimeline = (photos: PhotoRecord[], shape: ShapeSelection, dispersedRadius: number) => {
+  const n = photos.length;
+  const outline = spaceAlongOutline(getShapeOutline(shape), n);
+  const placements: PhotoPlacement[] = new Array(n);
+
+  byCaptureDate(photos).forEach((photoIndex, rank) => {
+    const progress = n > 1 ? rank / (n - 1) : 0.5;
+    const angle = rank * TIMELINE_TURNS_PER_PHOTO * Math.PI * 2;
+    placements[photoIndex] = {
+      dispersed: new THREE.Vector3(
+        Math.sin(angle) * dispersedRadius * 0.8,
+        (progress - 0.5) * dispersedRadius,
+        Math.cos(angle) * dispersedRadius * 0.8
+      ),
+      formed: outline[rank],
+    };
+  });
+  return placements;
+};
+
+// One cluster per album (in library order, untagged photos together), spread like the surface layout
+const arrangeAlbums = (photos: PhotoRecord[], shape: ShapeSelection, dispersedRadius: number) => {
+  const albums = new Map<string, number[]>();
+  photos.forEach((photo, i) => {
+    const album = photo.album.trim().toLowerCase();
+    if (!albums.has(album)) albums.set(album, []);
+    albums.get(album).push(i);
+  });
+
+  const groups = [...albums.values()];
+  const dispersedCentres = fibonacciSphere(groups.length, dispersedRadius * 0.7);
+  const formedCentres = spreadOverShape(shape, groups.length);
+  const placements: PhotoPlacement[] = new Array(photos.length);
+
+  groups.forEach((members, g) => {
+    members.forEach((photoIndex, k) => {
+      placements[photoIndex] = {
+        dispersed: sunflowerOffset(k, CLUSTER_SPACING_DISPERSED).add(dispersedCentres[g]),
+        formed: sunflowerOffset(k, CLUSTER_SPACING_FORMED * shape.scale).add(formedCentres[g]),
+      };
+    });
+  });
+  return placements;
+};
+
+// Positions for the arranged layouts (scatter is random per photo and lives in PhotoGallery).
+// They depend on the whole set, so they're recomputed when photos, dates or albums change
+export const arrangePhotos = (
+  layout: Exclude<PhotoLayout, 'scatter'>,
+  photos: PhotoRecord[],
+  shape: ShapeSelection,
+  dispersedRadius: number
+): PhotoPlacement[] => {
+  switch (layout) {
+    case 'surface': return arrangeSurface(photos, shape, dispersedRadius);
+    case 'timeline': return arrangeTimeline(photos, shape, dispersedRadius);
+    case 'albums': return arrangeAlbums(photos, shape, dispersedRadius);
+  }
+};
+
+export const loadPhotoLayout = (): PhotoLayout => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return isPhotoLayout(saved) ? saved : 'scatter';
+  } catch (e) {
+    console.error("Failed to load photo layout", e);
+    return 'scatter';
+  }
+};
+
+export const savePhotoLayout = (layout: PhotoLayout) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, layout);
+  } catch (e) {
+    console.warn("Failed to save photo layout", e);
+  }
+};
@@ -0,0 +1,170 @@
+import { StoredPhoto } from '../types';
+import { processImageFile } from './imageProcessing';
+
+const DB_NAME = 'heart_cloud';
+const DB_VERSION = 1;
+const STORE = 'photos';
+
+// Where photos lived before IndexedDB (full-size base64 data URLs)
+const LEGACY_STORAGE_KEY = 'heart_cloud_photos';
+
+const requestToPromise = <T>(request: IDBRequest<T>) => {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction) => {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open (e.g. private mode)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Records saved before captions / favourites / ordering / dates & albums / videos existed get defaults
+const normalizePhoto = (photo: StoredPhoto): StoredPhoto => ({
+  ...photo,
+  kind: photo.kind ?? 'image',
+  caption: photo.caption ?? '',
+  favourite: photo.favourite ?? false,
+  order: photo.order ?? photo.createdAt,
+  takenAt: photo.takenAt ?? null,
+  album: photo.album ?? '',
+});
+
+export const getAllPhotos = async (): Promise<StoredPhoto[]> => {
+  const db = await openDb();
+  const photos = await requestToPromise(db.transaction(STORE, 'readonly').objectStore(STORE).getAll() as IDBRequest<StoredPhoto[]>);
+  return photos.map(normalizePhoto).sort((a, b) => a.order - b.order);
+};
+
+export const putPhotos = async (photos: StoredPhoto[]) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  photos.forEach(photo => store.put(photo));
+  await transactionDone(tx);
+};
+
+export const deletePhotos = async (ids: string[]) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+export const clearPhotos = async () => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).clear();
+  await transactionDone(tx);
+};
+
+export interface StorageUsage {
+  usage: number; // Bytes used by this origin
+  quota: number; // Bytes available to this origin
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage || !navigator.storage.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+export interface MigrationResult {
+  migrated: number;
+  failed: number; // Undecodable data URLs, dropped with the legacy key
+}
+
+const migrateLegacyData = async (): Promise<MigrationResult> => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return { migrated: 0, failed: 0 };
+
+  const dataUrls: string[] = JSON.parse(saved);
+  const baseTime = Date.now();
+
+  const results = await Promise.allSettled(dataUrls.map(async (dataUrl, i) => {
+    const blob = await (await fetch(dataUrl)).blob();
+    return processImageFile(blob, `Photo ${i + 1}`, baseTime + i);
+  }));
+  const photos = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+
+  // A photo that can't be decoded now never will be, so don't retry it on every load
+  await putPhotos(photos);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return { migrated: photos.length, failed: results.length - photos.length };
+};
+
+let migration: Promise<MigrationResult> | null = null;
+
+// Move photos saved by older versions (localStorage data URLs) into IndexedDB.
+// Runs once per page load (StrictMode mounts twice, and every run would give the photos new ids).
+// The legacy key is only removed once the decodable photos are stored
+export const migrateLegacyPhotos = (): Promise<MigrationResult> => {
+  if (!migration) {
+    migration = migrateLegacyData();
+    // Allow a retry after a failed store (e.g. storage full)
+    migration.catch(() => { migration = null; });
+  }
+  return migration;
+};
+
+// Object URLs for stored Blobs, created once per photo and revoked when the photo goes away
+export const createObjectUrlCache = () => {
+  const urls = new Map<string, string>();
+
+  return {
+    get(key: string, blob: Blob) {
+      let url = urls.get(key);
+      if (!url) {
+        url = URL.createObjectURL(blob);
+        urls.set(key, url);
+      }
+      return url;
+    },
+    // Revoke every URL whose key is not in activeKeys
+    prune(activeKeys: Set<string>) {
+      urls.forEach((url, key) => {
+        if (!activeKeys.has(key)) {
+          URL.revokeObjectURL(url);
+          urls.delete(key);
+        }
+      });
+    },
+  };
+};
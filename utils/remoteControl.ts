@@ -0,0 +1,182 @@
+import { GestureState, RemoteControlCommand, RemoteControlEvent, RemoteControlSettings } from '../types';
+import { SHAPES } from './shapes';
+import { MAX_SHAPE_SCALE } from './sceneConfig';
+
+// Same-origin pages (e.g. control.html in another tab) talk over this BroadcastChannel
+export const CONTROL_CHANNEL = 'heart-cloud-control';
+const STORAGE_KEY = 'heart_cloud_remote_control';
+const BRIDGE_PORT = 8788;
+const BRIDGE_RETRY_MS = 3000; // Installations may start the browser before the bridge
+
+const GESTURES = [GestureState.DISPERSED, GestureState.FORMED, GestureState.ROTATING, GestureState.FOCUSED];
+const EVENT_TYPES: RemoteControlEvent['type'][] = ['gesture', 'dynamic-gesture', 'state'];
+
+export const getDefaultBridgeUrl = () => `ws://${window.location.hostname || 'localhost'}:${BRIDGE_PORT}`;
+
+export const getDefaultRemoteControlSettings = (): RemoteControlSettings => ({ bridgeEnabled: false, bridgeUrl: getDefaultBridgeUrl() });
+
+export type BridgeStatus = 'connecting' | 'connected' | 'closed';
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Validate untrusted input (any page on the channel, anything on the bridge). Throws with a readable message
+export const parseRemoteControlCommand = (data: unknown): RemoteControlCommand => {
+  const value = (typeof data === 'string' ? JSON.parse(data) : data) as any;
+
+  switch (value?.type) {
+    case 'set-gesture':
+      if (!GESTURES.includes(value.state)) throw new Error(`Unknown gesture: ${value.state}`);
+      return { type: 'set-gesture', state: value.state };
+    case 'hand':
+      if (!isFiniteNumber(value.x) || !isFiniteNumber(value.y)) throw new Error("Hand position needs numeric x and y");
+      return { type: 'hand', x: clamp01(value.x), y: clamp01(value.y) };
+    case 'add-photo':
+      if (typeof value.url !== 'string' || !/^(https?:|data:image\/)/.test(value.url)) {
+        throw new Error("Photo url must be an http(s) or data:image URL");
+      }
+      return { type: 'add-photo', url: value.url, caption: typeof value.caption === 'string' ? value.caption : undefined };
+    case 'set-shape':
+      if (value.id === 'image' || !SHAPES.some(s => s.id === value.id)) throw new Error(`Unknown shape: ${value.id}`);
+      if (value.text !== undefined && typeof value.text !== 'string') throw new Error("Shape text must be a string");
+      if (value.scale !== undefined && (!isFiniteNumber(value.scale) || value.scale <= 0 || value.scale > MAX_SHAPE_SCALE)) {
+        throw new Error(`Shape scale must be between 0 and ${MAX_SHAPE_SCALE}`);
+      }
+      return { type: 'set-shape', id: value.id, text: value.text, scale: value.scale };
+    case 'get-state':
+      return { type: 'get-state' };
+    default:
+      throw new Error(`Unknown command: ${value?.type}`);
+  }
+};
+
+const isRemoteControlEvent = (value: any): value is RemoteControlEvent => EVENT_TYPES.includes(value?.type);
+
+// The bridge address carries its token (ws://host:8788/?token=...), the role is added to it
+const getBridgeSocketUrl = (bridgeUrl: string, role: 'scene' | 'controller') => {
+  const url = new URL(bridgeUrl);
+  url.searchParams.set('role', role);
+  return url.toString();
+};
+
+// Scenes listen on the BroadcastChannel and, when a URL is given, the bridge (reconnecting until closed).
+// Controllers use one or the other, so nothing arrives twice
+const openControlLink = (
+  role: 'scene' | 'controller',
+  bridgeUrl: string | null,
+  onMessage: (data: unknown) => void,
+  onBridgeStatusChange: (status: BridgeStatus, error?: string) => void,
+) => {
+  const useChannel = (role === 'scene' || !bridgeUrl) && typeof BroadcastChannel !== 'undefined';
+  const channel = useChannel ? new BroadcastChannel(CONTROL_CHANNEL) : null;
+  if (channel) channel.onmessage = (event) => onMessage(event.data);
+
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const connect = () => {
+    try {
+      socket = new WebSocket(getBridgeSocketUrl(bridgeUrl, role));
+    } catch {
+      onBridgeStatusChange('closed', `Invalid bridge address: ${bridgeUrl}`);
+      return;
+    }
+    onBridgeStatusChange('connecting');
+    socket.onopen = () => onBridgeStatusChange('connected');
+    socket.onmessage = (event) => {
+      try {
+        onMessage(JSON.parse(event.data));
+      } catch (e) {
+        console.warn("Ignoring malformed bridge message", e);
+      }
+    };
+    socket.onclose = (event) => {
+      if (closed) return;
+      // 1008: the bridge turned us away (wrong token), it tells why
+      onBridgeStatusChange('closed', event.code === 1008 ? `${event.reason}, retrying…` : `No bridge at ${bridgeUrl}, retrying…`);
+      retryTimer = setTimeout(connect, BRIDGE_RETRY_MS);
+    };
+  };
+  if (bridgeUrl) connect();
+
+  return {
+    post(message: RemoteControlCommand | RemoteControlEvent) {
+      channel?.postMessage(message);
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close() {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      channel?.close();
+      socket?.close();
+    },
+  };
+};
+
+export interface RemoteControlCallbacks {
+  onCommand: (command: RemoteControlCommand) => void;
+  onBridgeStatusChange: (status: BridgeStatus, error?: string) => void;
+}
+
+// Scene side: receives commands, publishes events to every controller
+export const createRemoteControl = (bridgeUrl: string | null, callbacks: RemoteControlCallbacks) => {
+  const link = openControlLink('scene', bridgeUrl, (data) => {
+    // Other scenes' events share the channel
+    if (isRemoteControlEvent(data)) return;
+    try {
+      callbacks.onCommand(parseRemoteControlCommand(data));
+    } catch (e) {
+      console.warn("Ignoring remote control command", e);
+    }
+  }, callbacks.onBridgeStatusChange);
+
+  return {
+    publish: (event: RemoteControlEvent) => link.post(event),
+    close: link.close,
+  };
+};
+
+export type RemoteControl = ReturnType<typeof createRemoteControl>;
+
+export interface ControllerCallbacks {
+  onEvent: (event: RemoteControlEvent) => void;
+  onBridgeStatusChange: (status: BridgeStatus, error?: string) => void;
+}
+
+// Controller side (control.html): sends commands, receives the scene's events
+export const createRemoteController = (bridgeUrl: string | null, callbacks: ControllerCallbacks) => {
+  const link = openControlLink('controller', bridgeUrl, (data) => {
+    if (isRemoteControlEvent(data)) callbacks.onEvent(data);
+  }, callbacks.onBridgeStatusChange);
+
+  return {
+    send: (command: RemoteControlCommand) => link.post(command),
+    close: link.close,
+  };
+};
+
+export type RemoteController = ReturnType<typeof createRemoteController>;
+
+const isValidRemoteControlSettings = (value: any): value is RemoteControlSettings =>
+  !!value && typeof value.bridgeEnabled === 'boolean' && typeof value.bridgeUrl === 'string';
+
+export const loadRemoteControlSettings = (): RemoteControlSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return getDefaultRemoteControlSettings();
+    const parsed = JSON.parse(saved);
+    return isValidRemoteControlSettings(parsed) ? parsed : getDefaultRemoteControlSettings();
+  } catch (e) {
+    console.error("Failed to load remote control settings", e);
+    return getDefaultRemoteControlSettings();
+  }
+};
+
+export const saveRemoteControlSettings = (settings: RemoteControlSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Failed to save remote control settings", e);
+  }
+};
@@ -0,0 +1,78 @@
+import { DynamicGestureEvent, GestureClassifier, GestureState, LandmarkRecording } from '../types';
+import { GesturePipelineCallbacks, GesturePipelineOptions, createGesturePipeline } from './gesturePipeline';
+
+export interface ReplayResult {
+  transitions: GestureState[];         // Every gesture change the pipeline emitted, in order
+  positions: { x: number; y: number }[]; // Every onHandMove call
+  dynamic: DynamicGestureEvent[];       // Swipes & waves, in order
+}
+
+export interface FixtureCheck {
+  passed: boolean;
+  expected: GestureState[];
+  actual: GestureState[];
+  expectedDynamic: DynamicGestureEvent[] | null; // null when the fixture doesn't check swipes & waves
+  actualDynamic: DynamicGestureEvent[];
+}
+
+export const formatDynamicGesture = ({ gesture, focused }: DynamicGestureEvent) => focused ? `${gesture} (focused)` : gesture;
+
+const sameDynamic = (a: DynamicGestureEvent[], b: DynamicGestureEvent[]) =>
+  a.length === b.length && a.every((e, i) => e.gesture === b[i].gesture && e.focused === b[i].focused);
+
+// Feed a recording through the gesture pipeline as fast as possible (no DOM, no camera).
+// Uses the recorded timestamps, so hold / debounce timings behave like the live session.
+export const runRecording = (
+  recording: LandmarkRecording,
+  classifier: GestureClassifier,
+  options?: GesturePipelineOptions
+): ReplayResult => {
+  const result: ReplayResult = { transitions: [], positions: [], dynamic: [] };
+
+  const pipeline = createGesturePipeline(classifier, {
+    onGestureChange: (state) => result.transitions.push(state),
+    onHandMove: (x, y) => result.positions.push({ x, y }),
+    onDynamicGesture: (gesture, focused) => result.dynamic.push({ gesture, focused }),
+  }, options);
+
+  recording.frames.forEach(frame => pipeline.process(frame.hands, frame.t, frame.handedness));
+  return result;
+};
+
+export const checkFixture = (
+  recording: LandmarkRecording,
+  classifier: GestureClassifier,
+  options?: GesturePipelineOptions
+): FixtureCheck => {
+  const expected = recording.expected || [];
+  const expectedDynamic = recording.expectedDynamic || null;
+  const result = runRecording(recording, classifier, options);
+  const actual = result.transitions;
+  const passed = expected.length === actual.length && expected.every((state, i) => state === actual[i]) &&
+    (!expectedDynamic || sameDynamic(expectedDynamic, result.dynamic));
+  return { passed, expected, actual, expectedDynamic, actualDynamic: result.dynamic };
+};
+
+// Steps a recording through the gesture pipeline on an external clock, e.g. one video frame
+// at a time for an offline render. advanceTo() feeds every frame recorded up to `time` (ms)
+export const createRecordingPlayer = (
+  recording: LandmarkRecording,
+  classifier: GestureClassifier,
+  callbacks: GesturePipelineCallbacks,
+  options?: GesturePipelineOptions
+) => {
+  const frames = recording.frames;
+  const pipeline = createGesturePipeline(classifier, callbacks, options);
+  let nextFrame = 0;
+
+  return {
+    duration: frames.length > 0 ? frames[frames.length - 1].t : 0,
+    advanceTo(time: number) {
+      while (nextFrame < frames.length && frames[nextFrame].t <= time) {
+        const frame = frames[nextFrame];
+        pipeline.process(frame.hands, frame.t, frame.handedness);
+        nextFrame++;
+      }
+    },
+  };
+};
@@ -0,0 +1,204 @@
+import { Zippable, deflateSync, inflateSync, strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { ParticleInteraction, SceneConfig, SceneTuning, StoredPhoto } from '../types';
+import { SHAPES } from './shapes';
+import { PARTICLE_COUNTS } from './particleSimulation';
+import { isValidTheme } from './theme';
+import { isEffectsQuality } from './effects';
+import { isValidSlideshowSettings } from './slideshow';
+import { isPhotoLayout } from './photoLayout';
+
+export const SCENE_CONFIG_VERSION = 1;
+
+const TUNING_STORAGE_KEY = 'heart_cloud_tuning';
+const HASH_PREFIX = '#scene=';
+
+// Bundle layout
+const CONFIG_FILE = 'scene.json';
+const PHOTOS_FILE = 'photos.json';
+const SHAPE_IMAGE_FILE = 'shape.png';
+
+export const DEFAULT_TUNING: SceneTuning = {
+  handSensitivityX: 25,
+  handSensitivityY: 15,
+  dispersedRadius: 40,
+  photoRadius: 30,
+  photoUnlockCycles: 2,
+};
+
+export const MAX_SHAPE_SCALE = 5;
+const INTERACTIONS: ParticleInteraction[] = ['follow', 'repel', 'attract'];
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isValidTuning = (value: any): value is SceneTuning =>
+  !!value &&
+  isPositive(value.handSensitivityX) &&
+  isPositive(value.handSensitivityY) &&
+  isPositive(value.dispersedRadius) &&
+  isPositive(value.photoRadius) &&
+  Number.isInteger(value.photoUnlockCycles) && value.photoUnlockCycles >= 0;
+
+// Validate untrusted JSON (file, URL hash or bundle). Throws with a readable message
+export const parseSceneConfig = (data: unknown): SceneConfig => {
+  const value = (typeof data === 'string' ? JSON.parse(data) : data) as any;
+
+  if (!value || typeof value !== 'object') throw new Error("Scene config is not a JSON object");
+  if (value.version !== SCENE_CONFIG_VERSION) throw new Error(`Unsupported scene config version: ${value.version}`);
+
+  const shape = value.shape;
+  if (!shape || !SHAPES.some(s => s.id === shape.id) || typeof shape.text !== 'string') {
+    throw new Error("Scene config has an invalid shape");
+  }
+  if (!isPositive(shape.scale) || shape.scale > MAX_SHAPE_SCALE) {
+    throw new Error(`Shape scale must be between 0 and ${MAX_SHAPE_SCALE}`);
+  }
+  if (!PARTICLE_COUNTS.includes(value.particleCount)) {
+    throw new Error(`Particle count must be one of ${PARTICLE_COUNTS.join(', ')}`);
+  }
+  if (!INTERACTIONS.includes(value.particleInteraction)) throw new Error("Scene config has an invalid hand interaction");
+  if (!isValidTheme(value.theme)) throw new Error("Scene config has an invalid theme");
+  if (!isEffectsQuality(value.effectsQuality)) throw new Error("Scene config has an invalid effects quality");
+  if (!isValidSlideshowSettings(value.slideshow)) throw new Error("Scene config has invalid slideshow timings");
+  if (!isValidTuning(value.tuning)) throw new Error("Scene config has invalid tuning values");
+  if (value.photoLayout !== undefined && !isPhotoLayout(value.photoLayout)) throw new Error("Scene config has an invalid photo layout");
+
+  return {
+    version: SCENE_CONFIG_VERSION,
+    shape: { id: shape.id, text: shape.text, scale: shape.scale },
+    particleCount: value.particleCount,
+    particleInteraction: value.particleInteraction,
+    theme: value.theme,
+    effectsQuality: value.effectsQuality,
+    slideshow: value.slideshow,
+    tuning: value.tuning,
+    photoLayout: value.photoLayout ?? 'scatter',
+  };
+};
+
+// --- URL hash: deflated JSON, base64url ---
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+export const encodeSceneConfigHash = (config: SceneConfig) =>
+  HASH_PREFIX + toBase64Url(deflateSync(strToU8(JSON.stringify(config)), { level: 9 }));
+
+// null when the hash isn't a scene link; throws when it is one but can't be read
+export const decodeSceneConfigHash = (hash: string): SceneConfig | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  try {
+    return parseSceneConfig(strFromU8(inflateSync(fromBase64Url(hash.slice(HASH_PREFIX.length)))));
+  } catch (e) {
+    throw new Error(`Scene link is damaged: ${e instanceof Error ? e.message : e}`);
+  }
+};
+
+// --- Zip bundle: config + original photo files (+ the image shape's picture) ---
+
+export interface BundledPhoto {
+  file: Blob;
+  name: string;
+  createdAt: number;
+  caption: string;
+  favourite: boolean;
+  album: string;
+}
+
+export interface SceneBundle {
+  config: SceneConfig;
+  photos: BundledPhoto[]; // In display order
+  shapeImage: Blob | null;
+}
+
+interface PhotoManifestEntry extends Omit<BundledPhoto, 'file'> {
+  path: string;
+  type: string;
+}
+
+const safeFileName = (name: string) => name.replace(/[^\w.-]+/g, '_').slice(-80) || 'photo';
+
+export const createSceneBundle = async (config: SceneConfig, photos: StoredPhoto[], shapeImage: Blob | null): Promise<Blob> => {
+  const files: Zippable = {};
+  const manifest: PhotoManifestEntry[] = [];
+
+  for (const [i, photo] of photos.entries()) {
+    const path = `photos/${String(i + 1).padStart(3, '0')}-${safeFileName(photo.name)}`;
+    // Photos are compressed already, deflating them again only costs time
+    files[path] = [new Uint8Array(await photo.original.arrayBuffer()), { level: 0 }];
+    manifest.push({
+      path,
+      type: photo.original.type,
+      name: photo.name,
+      createdAt: photo.createdAt,
+      caption: photo.caption,
+      favourite: photo.favourite,
+      album: photo.album,
+    });
+  }
+
+  files[CONFIG_FILE] = strToU8(JSON.stringify(config, null, 2));
+  files[PHOTOS_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+  if (shapeImage) files[SHAPE_IMAGE_FILE] = [new Uint8Array(await shapeImage.arrayBuffer()), { level: 0 }];
+
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+};
+
+export const readSceneBundle = async (file: Blob): Promise<SceneBundle> => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch (e) {
+    throw new Error("File is not a valid zip archive");
+  }
+
+  if (!files[CONFIG_FILE]) throw new Error(`Bundle has no ${CONFIG_FILE}`);
+  const config = parseSceneConfig(strFromU8(files[CONFIG_FILE]));
+
+  const manifest: unknown = files[PHOTOS_FILE] ? JSON.parse(strFromU8(files[PHOTOS_FILE])) : [];
+  if (!Array.isArray(manifest)) throw new Error(`${PHOTOS_FILE} is not a list`);
+
+  const photos = manifest.map((entry: any, i): BundledPhoto => {
+    const data = typeof entry?.path === 'string' ? files[entry.path] : undefined;
+    if (!data) throw new Error(`Photo ${i + 1} is missing from the bundle`);
+    return {
+      file: new Blob([data], { type: typeof entry.type === 'string' ? entry.type : '' }),
+      name: typeof entry.name === 'string' ? entry.name : entry.path,
+      createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : Date.now(),
+      caption: typeof entry.caption === 'string' ? entry.caption : '',
+      favourite: entry.favourite === true,
+      album: typeof entry.album === 'string' ? entry.album : '',
+    };
+  });
+
+  const shapeImage = files[SHAPE_IMAGE_FILE] ? new Blob([files[SHAPE_IMAGE_FILE]], { type: 'image/png' }) : null;
+  return { config, photos, shapeImage };
+};
+
+export const loadSceneTuning = (): SceneTuning => {
+  try {
+    const saved = localStorage.getItem(TUNING_STORAGE_KEY);
+    if (!saved) return DEFAULT_TUNING;
+    const parsed = JSON.parse(saved);
+    return isValidTuning(parsed) ? parsed : DEFAULT_TUNING;
+  } catch (e) {
+    console.error("Failed to load scene tuning", e);
+    return DEFAULT_TUNING;
+  }
+};
+
+export const saveSceneTuning = (tuning: SceneTuning) => {
+  try {
+    localStorage.setItem(TUNING_STORAGE_KEY, JSON.stringify(tuning));
+  } catch (e) {
+    console.warn("Failed to save scene tuning", e);
+  }
+};
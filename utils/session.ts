@@ -0,0 +1,206 @@
+import { GestureState, PhotoRecord, SessionClientMessage, SessionPeer, SessionServerMessage, SharedPhoto, SharedShape, StoredPhoto } from '../types';
+
+export const DEFAULT_SESSION_NAME = 'heart';
+const RELAY_PORT = 8787;
+
+// Hand positions are sent at most this often (the receiving scene smooths them anyway)
+const HAND_INTERVAL_MS = 50;
+
+export const getDefaultRelayUrl = () => `ws://${window.location.hostname || 'localhost'}:${RELAY_PORT}`;
+
+export type SessionStatus = 'connecting' | 'connected' | 'closed';
+
+export interface RemotePhoto {
+  peerId: string;
+  record: PhotoRecord;
+}
+
+export interface SessionCallbacks {
+  onStatusChange: (status: SessionStatus, error?: string) => void;
+  onWelcome: (self: { id: string; color: string }, shape: SharedShape | null) => void;
+  onPeersChange: (peers: SessionPeer[]) => void;
+  onPhotosChange: (photos: RemotePhoto[]) => void;
+  onPeerHand: (peerId: string, x: number, y: number) => void;
+  onShape: (shape: SharedShape) => void;
+}
+
+const blobToBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const base64ToBlob = (data: string, type: string) =>
+  new Blob([Uint8Array.from(atob(data), c => c.charCodeAt(0))], { type });
+
+// One connection to the relay. Keeps the other peers and their photos (as object URLs)
+// and reports every change as a fresh array, ready for React state
+export const createSessionClient = (relayUrl: string, sessionName: string, callbacks: SessionCallbacks) => {
+  const socket = new WebSocket(`${relayUrl.replace(/\/$/, '')}/?session=${encodeURIComponent(sessionName)}`);
+  const peers = new Map<string, SessionPeer>();
+  const photos = new Map<string, RemotePhoto>();
+  let lastHandSent = 0;
+  let pendingHand: { x: number; y: number } | null = null;
+  let handTimer: ReturnType<typeof setTimeout> | null = null;
+  let closedByUser = false;
+  let opened = false;
+
+  const send = (message: SessionClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const emitPeers = () => callbacks.onPeersChange([...peers.values()]);
+  const emitPhotos = () => callbacks.onPhotosChange([...photos.values()]);
+
+  // Keyed by peer as well: photo ids are only unique per browser (two tabs share the same library),
+  // and they mustn't collide with the local photos in the gallery
+  const photoKey = (peerId: string, photoId: string) => `${peerId}:${photoId}`;
+
+  const addPhoto = (peerId: string, photo: SharedPhoto) => {
+    const key = photoKey(peerId, photo.id);
+    const previous = photos.get(key);
+    if (previous) URL.revokeObjectURL(previous.record.url);
+
+    const url = URL.createObjectURL(base64ToBlob(photo.data, photo.type));
+    photos.set(key, {
+      peerId,
+      record: {
+        id: key,
+        kind: 'image', // Videos are shared as their poster frame
+        url,
+        originalUrl: url, // Only the texture-sized variant is shared
+        thumbnailUrl: url,
+        caption: photo.caption,
+        favourite: false,
+        width: photo.width,
+        height: photo.height,
+        // Not checked by the relay
+        takenAt: typeof photo.takenAt === 'number' ? photo.takenAt : null,
+        album: typeof photo.album === 'string' ? photo.album : '',
+      },
+    });
+  };
+
+  const removePhotos = (match: (photo: RemotePhoto, id: string) => boolean) => {
+    photos.forEach((photo, id) => {
+      if (!match(photo, id)) return;
+      URL.revokeObjectURL(photo.record.url);
+      photos.delete(id);
+    });
+  };
+
+  const handleMessage = (message: SessionServerMessage) => {
+    switch (message.type) {
+      case 'welcome':
+        message.peers.forEach(peer => peers.set(peer.id, peer));
+        message.photos.forEach(({ peerId, photo }) => addPhoto(peerId, photo));
+        callbacks.onWelcome({ id: message.id, color: message.color }, message.shape);
+        emitPeers();
+        emitPhotos();
+        break;
+      case 'peer-joined':
+        peers.set(message.peer.id, message.peer);
+        emitPeers();
+        break;
+      case 'peer-left':
+        peers.delete(message.peerId);
+        removePhotos(photo => photo.peerId === message.peerId);
+        emitPeers();
+        emitPhotos();
+        break;
+      case 'hand':
+        callbacks.onPeerHand(message.peerId, message.x, message.y);
+        break;
+      case 'gesture': {
+        const peer = peers.get(message.peerId);
+        if (!peer) break;
+        peers.set(peer.id, { ...peer, gesture: message.state, contributed: message.contributed });
+        emitPeers();
+        break;
+      }
+      case 'shape':
+        callbacks.onShape(message.shape);
+        break;
+      case 'photo-added':
+        addPhoto(message.peerId, message.photo);
+        emitPhotos();
+        break;
+      case 'photo-removed':
+        removePhotos((_, key) => key === photoKey(message.peerId, message.id));
+        emitPhotos();
+        break;
+    }
+  };
+
+  callbacks.onStatusChange('connecting');
+  socket.onopen = () => {
+    opened = true;
+    callbacks.onStatusChange('connected');
+  };
+  socket.onclose = (event) => {
+    if (handTimer) clearTimeout(handTimer);
+    removePhotos(() => true);
+    peers.clear();
+    // After close() the caller resets its own state
+    if (closedByUser) return;
+    emitPeers();
+    emitPhotos();
+    callbacks.onStatusChange('closed', opened ? `Relay disconnected${event.reason ? `: ${event.reason}` : ''}` : `Could not reach the relay at ${relayUrl}`);
+  };
+  socket.onmessage = (event) => {
+    if (closedByUser) return;
+    try {
+      handleMessage(JSON.parse(event.data));
+    } catch (e) {
+      console.warn("Ignoring malformed relay message", e);
+    }
+  };
+
+  return {
+    // Throttled; the latest position is always delivered
+    sendHand(x: number, y: number) {
+      pendingHand = { x, y };
+      if (handTimer) return;
+      const wait = Math.max(0, lastHandSent + HAND_INTERVAL_MS - performance.now());
+      handTimer = setTimeout(() => {
+        handTimer = null;
+        if (!pendingHand) return;
+        send({ type: 'hand', ...pendingHand });
+        pendingHand = null;
+        lastHandSent = performance.now();
+      }, wait);
+    },
+    sendGesture(state: GestureState) {
+      send({ type: 'gesture', state });
+    },
+    sendShape(shape: SharedShape) {
+      send({ type: 'shape', shape });
+    },
+    async sharePhoto(photo: StoredPhoto) {
+      send({
+        type: 'photo-added',
+        photo: {
+          id: photo.id,
+          caption: photo.caption,
+          width: photo.width,
+          height: photo.height,
+          type: photo.texture.type,
+          data: await blobToBase64(photo.texture),
+          takenAt: photo.takenAt,
+          album: photo.album,
+        },
+      });
+    },
+    unsharePhoto(id: string) {
+      send({ type: 'photo-removed', id });
+    },
+    // Quiet: no callbacks once closed
+    close() {
+      closedByUser = true;
+      socket.close();
+    },
+  };
+};
+
+export type SessionClient = ReturnType<typeof createSessionClient>;
@@ -0,0 +1,157 @@
+import * as THREE from 'three';
+import { ShapeId, ShapeSelection } from '../types';
+import { createImageSampler, heartOutline, randomInHeart, randomInRing, randomInSphere, randomInStar, randomInTorus, starEdgeRadius } from './math';
+
+// Returns a new random point of the shape on every call (local space, roughly 20 units across).
+// Colored shapes also write the point's colour into colorTarget.
+export type ShapeSampler = (colorTarget?: THREE.Color) => THREE.Vector3;
+
+export interface ShapeDefinition {
+  id: ShapeId;
+  label: string;
+  colored?: boolean; // Sampler provides per-point colours
+  createSampler: (selection: ShapeSelection) => ShapeSampler;
+  outline?: (t: number) => THREE.Vector3; // Closed outline, t in [0, 1) clockwise from the top (timeline photo layout)
+}
+
+// Closed curve through the shape, t in [0, 1)
+export type ShapeOutline = (t: number) => THREE.Vector3;
+
+export const DEFAULT_SHAPE: ShapeSelection = { id: 'heart', text: '', image: null, scale: 1 };
+
+const HEART_SCALE = 0.6;
+
+// Tip the torus back so it reads as 3D instead of a flat ring
+const TORUS_TILT = new THREE.Quaternion().setFromEuler(new THREE.Euler(-Math.PI / 3, 0, 0));
+
+const TEXT_FONT_SIZE = 96;   // Canvas pixels
+const TEXT_MAX_WIDTH = 28;   // World units
+const TEXT_MAX_HEIGHT = 12;
+const TEXT_DEPTH = 3;
+
+const IMAGE_SIZE = 24; // World units of the image's longest edge
+const OUTLINE_RADIUS = 11; // Circle used for shapes without an outline of their own
+
+// Clockwise circle from the top
+const circleOutline = (radius: number) => (t: number) =>
+  new THREE.Vector3(Math.sin(t * Math.PI * 2) * radius, Math.cos(t * Math.PI * 2) * radius, 0);
+
+interface TextRaster {
+  pixels: Int32Array; // Packed x, y pairs of the covered pixels
+  width: number;
+  height: number;
+}
+
+// Draw the text into an offscreen canvas and collect the covered pixels
+const rasterizeText = (text: string): TextRaster | null => {
+  if (typeof document === 'undefined') return null;
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  const font = `bold ${TEXT_FONT_SIZE}px sans-serif`;
+  ctx.font = font;
+  const padding = Math.ceil(TEXT_FONT_SIZE * 0.1);
+  canvas.width = Math.ceil(ctx.measureText(text).width) + padding * 2;
+  canvas.height = Math.ceil(TEXT_FONT_SIZE * 1.3);
+
+  // Resizing the canvas resets the context state
+  ctx.font = font;
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(text, padding, canvas.height / 2);
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const covered: number[] = [];
+  for (let y = 0; y < canvas.height; y++) {
+    for (let x = 0; x < canvas.width; x++) {
+      if (data[(y * canvas.width + x) * 4 + 3] > 128) covered.push(x, y);
+    }
+  }
+  if (covered.length === 0) return null;
+
+  return { pixels: Int32Array.from(covered), width: canvas.width, height: canvas.height };
+};
+
+const createTextSampler = (text: string): ShapeSampler => {
+  const raster = text.trim() ? rasterizeText(text.trim()) : null;
+  // Nothing to draw (empty text or no DOM): fall back to the heart
+  if (!raster) return () => randomInHeart(HEART_SCALE);
+
+  const { pixels, width, height } = raster;
+  const scale = Math.min(TEXT_MAX_WIDTH / width, TEXT_MAX_HEIGHT / height);
+  const pixelCount = pixels.length / 2;
+
+  return () => {
+    const i = Math.floor(Math.random() * pixelCount) * 2;
+    // Jitter inside the pixel so points don't line up on the raster grid
+    const x = pixels[i] + Math.random() - width / 2;
+    const y = height / 2 - (pixels[i + 1] + Math.random());
+    return new THREE.Vector3(x * scale, y * scale, (Math.random() - 0.5) * TEXT_DEPTH);
+  };
+};
+
+const createImageShapeSampler = (image: ImageData | null): ShapeSampler => {
+  // No image picked yet (or nothing visible in it): fall back to the heart
+  return (image && createImageSampler(image, IMAGE_SIZE)) || (() => randomInHeart(HEART_SCALE));
+};
+
+export const SHAPES: ShapeDefinition[] = [
+  {
+    id: 'heart', label: 'Heart',
+    createSampler: () => () => randomInHeart(HEART_SCALE),
+    outline: (t) => heartOutline(t * Math.PI * 2, HEART_SCALE),
+  },
+  {
+    id: 'star', label: 'Star',
+    createSampler: () => () => randomInStar(11),
+    outline: (t) => {
+      const angle = Math.PI / 2 - t * Math.PI * 2;
+      const radius = starEdgeRadius(angle, 11);
+      return new THREE.Vector3(Math.cos(angle) * radius, Math.sin(angle) * radius, 0);
+    },
+  },
+  { id: 'ring', label: 'Ring', createSampler: () => () => randomInRing(9, 3), outline: circleOutline(9) },
+  { id: 'sphere', label: 'Sphere', createSampler: () => () => randomInSphere(10), outline: circleOutline(10) },
+  {
+    id: 'torus', label: 'Torus',
+    createSampler: () => () => randomInTorus(8, 3).applyQuaternion(TORUS_TILT),
+    outline: (t) => circleOutline(8)(t).applyQuaternion(TORUS_TILT),
+  },
+  { id: 'text', label: 'Text', createSampler: (selection) => createTextSampler(selection.text) },
+  { id: 'image', label: 'Image', colored: true, createSampler: (selection) => createImageShapeSampler(selection.image) },
+];
+
+export const getShape = (id: ShapeId): ShapeDefinition =>
+  SHAPES.find(s => s.id === id) ?? SHAPES[0];
+
+// Sampler for the selection, scaled to its size
+export const createShapeSampler = (selection: ShapeSelection): ShapeSampler => {
+  const sample = getShape(selection.id).createSampler(selection);
+  return selection.scale === 1 ? sample : (colorTarget) => sample(colorTarget).multiplyScalar(selection.scale);
+};
+
+// Outline of the selection, scaled to its size (a circle for text & image shapes)
+export const getShapeOutline = (selection: ShapeSelection): ShapeOutline => {
+  const outline = getShape(selection.id).outline ?? circleOutline(OUTLINE_RADIUS);
+  return (t) => outline(t).multiplyScalar(selection.scale);
+};
+
+// Flat xyz (and rgb for colored shapes) buffers with `count` points of the selected shape
+export const sampleShape = (selection: ShapeSelection, count: number): { positions: Float32Array; colors: Float32Array | null } => {
+  const shape = getShape(selection.id);
+  const sample = createShapeSampler(selection);
+  const positions = new Float32Array(count * 3);
+  const colors = shape.colored && selection.image ? new Float32Array(count * 3) : null;
+  const color = new THREE.Color();
+
+  for (let i = 0; i < count; i++) {
+    const p = sample(color);
+    positions[i * 3] = p.x;
+    positions[i * 3 + 1] = p.y;
+    positions[i * 3 + 2] = p.z;
+    if (colors) color.toArray(colors, i * 3);
+  }
+  return { positions, colors };
+};
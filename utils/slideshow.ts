@@ -0,0 +1,82 @@
+import { GestureState, SlideshowSettings } from '../types';
+
+const STORAGE_KEY = 'heart_cloud_slideshow';
+
+export const DEFAULT_SLIDESHOW_SETTINGS: SlideshowSettings = {
+  dispersed: 8,
+  formed: 6,
+  rotating: 6,
+  focused: 4,
+  resumeAfter: 15,
+};
+
+// Seconds. With no wait at all live input could never take over: the loop would resume on the next frame
+export const MIN_RESUME_AFTER = 1;
+
+export interface SlideshowStep {
+  state: GestureState;
+  photoIndex: number | null; // Photo to focus (FOCUSED steps only)
+  duration: number;          // Milliseconds
+}
+
+export interface SlideshowFrame {
+  step: SlideshowStep;
+  stepIndex: number;
+  x: number; // Virtual hand, normalized (mirrored) camera coordinates like the gesture pipeline's
+  y: number;
+}
+
+// One loop: dispersed → formed → rotating → each photo in turn
+export const getSlideshowSteps = (settings: SlideshowSettings, photoCount: number): SlideshowStep[] => [
+  { state: GestureState.DISPERSED, photoIndex: null, duration: settings.dispersed * 1000 },
+  { state: GestureState.FORMED, photoIndex: null, duration: settings.formed * 1000 },
+  { state: GestureState.ROTATING, photoIndex: null, duration: settings.rotating * 1000 },
+  ...Array.from({ length: photoCount }, (_, i) => ({ state: GestureState.FOCUSED, photoIndex: i, duration: settings.focused * 1000 })),
+].filter(step => step.duration > 0);
+
+// Where the loop is `elapsed` ms after it started
+export const getSlideshowFrame = (steps: SlideshowStep[], elapsed: number): SlideshowFrame | null => {
+  const total = steps.reduce((sum, step) => sum + step.duration, 0);
+  if (total <= 0) return null;
+
+  let remaining = elapsed % total;
+  let stepIndex = 0;
+  while (remaining >= steps[stepIndex].duration) {
+    remaining -= steps[stepIndex].duration;
+    stepIndex++;
+  }
+
+  // Slow figure-of-eight so the dispersed cloud drifts as if a hand was moving it
+  const t = elapsed / 1000;
+  return {
+    step: steps[stepIndex],
+    stepIndex,
+    x: 0.5 + 0.2 * Math.sin(t * 0.3),
+    y: 0.5 + 0.12 * Math.sin(t * 0.6),
+  };
+};
+
+const SETTING_KEYS: (keyof SlideshowSettings)[] = ['dispersed', 'formed', 'rotating', 'focused', 'resumeAfter'];
+
+export const isValidSlideshowSettings = (value: any): value is SlideshowSettings =>
+  !!value && SETTING_KEYS.every(key => typeof value[key] === 'number' && Number.isFinite(value[key]) && value[key] >= 0);
+
+export const loadSlideshowSettings = (): SlideshowSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_SLIDESHOW_SETTINGS;
+    const parsed = JSON.parse(saved);
+    return isValidSlideshowSettings(parsed) ? parsed : DEFAULT_SLIDESHOW_SETTINGS;
+  } catch (e) {
+    console.error("Failed to load slideshow settings", e);
+    return DEFAULT_SLIDESHOW_SETTINGS;
+  }
+};
+
+export const saveSlideshowSettings = (settings: SlideshowSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Failed to save slideshow settings", e);
+  }
+};
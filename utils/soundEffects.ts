@@ -0,0 +1,84 @@
+import { GestureState } from '../types';
+
+export type SoundEffect = 'form' | 'disperse' | 'focus';
+
+const VOLUME = 0.25;
+
+// Gesture that triggers each effect (rotating keeps the shape, so it stays quiet)
+export const GESTURE_SOUNDS: Partial<Record<GestureState, SoundEffect>> = {
+  [GestureState.FORMED]: 'form',
+  [GestureState.DISPERSED]: 'disperse',
+  [GestureState.FOCUSED]: 'focus',
+};
+
+// Short synthesized cues, no audio files to load
+export const createSoundEffects = (getContext: () => AudioContext) => {
+  let noise: AudioBuffer | null = null;
+
+  const getNoise = (ctx: AudioContext) => {
+    if (!noise) {
+      noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+      const data = noise.getChannelData(0);
+      for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    }
+    return noise;
+  };
+
+  // Gain node with a quick attack and exponential release
+  const envelope = (ctx: AudioContext, start: number, peak: number, duration: number) => {
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.0001, start);
+    gain.gain.exponentialRampToValueAtTime(peak * VOLUME, start + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    gain.connect(ctx.destination);
+    return gain;
+  };
+
+  // Rising two-note chime: the stars gather
+  const playForm = (ctx: AudioContext, now: number) => {
+    [[330, 0], [495, 0.08]].forEach(([frequency, offset]) => {
+      const osc = ctx.createOscillator();
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(frequency * 0.75, now + offset);
+      osc.frequency.exponentialRampToValueAtTime(frequency, now + offset + 0.15);
+      osc.connect(envelope(ctx, now + offset, 0.8, 0.6));
+      osc.start(now + offset);
+      osc.stop(now + offset + 0.6);
+    });
+  };
+
+  // Falling whoosh of filtered noise: the stars scatter
+  const playDisperse = (ctx: AudioContext, now: number) => {
+    const source = ctx.createBufferSource();
+    source.buffer = getNoise(ctx);
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.Q.value = 2;
+    filter.frequency.setValueAtTime(2500, now);
+    filter.frequency.exponentialRampToValueAtTime(300, now + 0.7);
+    source.connect(filter);
+    filter.connect(envelope(ctx, now, 0.6, 0.7));
+    source.start(now);
+    source.stop(now + 0.7);
+  };
+
+  // Soft high ping: a photo comes forward
+  const playFocus = (ctx: AudioContext, now: number) => {
+    const osc = ctx.createOscillator();
+    osc.type = 'triangle';
+    osc.frequency.setValueAtTime(1320, now);
+    osc.connect(envelope(ctx, now, 0.5, 0.3));
+    osc.start(now);
+    osc.stop(now + 0.3);
+  };
+
+  return {
+    play(effect: SoundEffect) {
+      const ctx = getContext();
+      const now = ctx.currentTime;
+      if (effect === 'form') playForm(ctx, now);
+      else if (effect === 'disperse') playDisperse(ctx, now);
+      else playFocus(ctx, now);
+    },
+  };
+};
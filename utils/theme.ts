@@ -0,0 +1,132 @@
+import { CSSProperties } from 'react';
+import * as THREE from 'three';
+import { PaletteEntry, Theme } from '../types';
+
+const STORAGE_KEY = 'heart_cloud_theme';
+
+export const THEME_PRESETS: Theme[] = [
+  {
+    id: 'ocean',
+    name: 'Ocean Blue',
+    // Deeper Blues & White for contrast (Tailwind Sky-400/500/600)
+    palette: [
+      { color: '#ffffff', weight: 0.1 },
+      { color: '#38bdf8', weight: 0.3 },
+      { color: '#0ea5e9', weight: 0.3 },
+      { color: '#0284c7', weight: 0.3 },
+    ],
+    emissiveIntensity: 0.15,
+    background: '#020205',
+    pointLight: '#38bdf8',
+    spotLight: '#ccffff',
+    accent: '#22d3ee',
+    accentSecondary: '#2563eb',
+  },
+  {
+    id: 'valentine',
+    name: 'Valentine Red',
+    palette: [
+      { color: '#ffffff', weight: 0.1 },
+      { color: '#fb7185', weight: 0.3 },
+      { color: '#e11d48', weight: 0.35 },
+      { color: '#9f1239', weight: 0.25 },
+    ],
+    emissiveIntensity: 0.2,
+    background: '#0a0205',
+    pointLight: '#fb7185',
+    spotLight: '#ffe4e6',
+    accent: '#fb7185',
+    accentSecondary: '#e11d48',
+  },
+  {
+    id: 'aurora',
+    name: 'Aurora',
+    palette: [
+      { color: '#d1fae5', weight: 0.15 },
+      { color: '#34d399', weight: 0.3 },
+      { color: '#22d3ee', weight: 0.25 },
+      { color: '#a78bfa', weight: 0.3 },
+    ],
+    emissiveIntensity: 0.2,
+    background: '#01060a',
+    pointLight: '#34d399',
+    spotLight: '#e0f2fe',
+    accent: '#34d399',
+    accentSecondary: '#a78bfa',
+  },
+  {
+    id: 'gold',
+    name: 'Gold',
+    palette: [
+      { color: '#fffbeb', weight: 0.15 },
+      { color: '#fcd34d', weight: 0.3 },
+      { color: '#f59e0b', weight: 0.3 },
+      { color: '#b45309', weight: 0.25 },
+    ],
+    emissiveIntensity: 0.25,
+    background: '#050302',
+    pointLight: '#fbbf24',
+    spotLight: '#fff7ed',
+    accent: '#fbbf24',
+    accentSecondary: '#d97706',
+  },
+];
+
+export const DEFAULT_THEME = THEME_PRESETS[0];
+
+// Weighted pick from the palette, r in [0, 1)
+export const pickPaletteColor = (palette: PaletteEntry[], r: number): string => {
+  const total = palette.reduce((sum, entry) => sum + Math.max(entry.weight, 0), 0);
+  let remaining = r * total;
+  for (const entry of palette) {
+    remaining -= Math.max(entry.weight, 0);
+    if (remaining < 0) return entry.color;
+  }
+  return palette[palette.length - 1]?.color ?? '#ffffff';
+};
+
+// Accent colour with alpha, for overlay styles
+export const withAlpha = (hex: string, alpha: number) => {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
+
+// CSS custom properties the overlay classes refer to (e.g. border-[color:var(--accent-soft)])
+export const getThemeCssVariables = (theme: Theme): CSSProperties => ({
+  '--accent': theme.accent,
+  '--accent-secondary': theme.accentSecondary,
+  '--accent-soft': withAlpha(theme.accent, 0.5),
+  '--accent-faint': withAlpha(theme.accent, 0.25),
+  '--accent-text': `#${new THREE.Color(theme.accent).lerp(new THREE.Color('#ffffff'), 0.7).getHexString()}`,
+} as CSSProperties);
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const isValidTheme = (value: any): value is Theme => {
+  if (!value || typeof value.id !== 'string' || typeof value.name !== 'string') return false;
+  if (!Array.isArray(value.palette) || value.palette.length === 0) return false;
+  if (!value.palette.every((e: any) => HEX_COLOR.test(e?.color) && typeof e.weight === 'number')) return false;
+  if (typeof value.emissiveIntensity !== 'number' || !Number.isFinite(value.emissiveIntensity)) return false;
+  return ['background', 'pointLight', 'spotLight', 'accent', 'accentSecondary']
+    .every(key => HEX_COLOR.test(value[key]));
+};
+
+export const loadTheme = (): Theme => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_THEME;
+    const parsed = JSON.parse(saved);
+    return isValidTheme(parsed) ? parsed : DEFAULT_THEME;
+  } catch (e) {
+    console.error("Failed to load theme", e);
+    return DEFAULT_THEME;
+  }
+};
+
+export const saveTheme = (theme: Theme) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(theme));
+  } catch (e) {
+    console.warn("Failed to save theme", e);
+  }
+};
@@ -0,0 +1,113 @@
+import * as THREE from 'three';
+import { HandLandmark, TwoHandParams } from '../types';
+import { MIDDLE_MCP, WRIST, extractHandFeatures } from './gestureClassifier';
+
+export interface TwoHandTrackerOptions {
+  togetherMax?: number; // Wrist distance (palm units) below which the hands count as "together"
+  releaseMs?: number;   // How long one hand may disappear before the held heart is released
+}
+
+const MIN_SCALE = 0.4;
+const MAX_SCALE = 2.5;
+
+// Landmark z is relative to the wrist and roughly in image-width units
+const PITCH_GAIN = 8;
+
+const wrapAngle = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+
+export const createTwoHandTracker = ({ togetherMax = 2.5, releaseMs = 300 }: TwoHandTrackerOptions = {}) => {
+  let holding = false;
+  let lastSeen = -Infinity;
+  let base = { distance: 1, roll: 0, pitch: 0, yaw: 0 };
+
+  return {
+    // hands = all detected hands this frame. timestamp in milliseconds
+    update(hands: HandLandmark[][], timestamp: number): TwoHandParams | null {
+      if (hands.length < 2) {
+        if (timestamp - lastSeen > releaseMs) holding = false;
+        return null;
+      }
+      lastSeen = timestamp;
+
+      // The camera image isn't mirrored: the larger raw x is on the LEFT of the (mirrored) screen
+      const [a, b] = hands;
+      const [left, right] = a[WRIST].x > b[WRIST].x ? [a, b] : [b, a];
+      const lw = left[WRIST];
+      const rw = right[WRIST];
+
+      const leftPalm = extractHandFeatures(left).palmSize;
+      const rightPalm = extractHandFeatures(right).palmSize;
+      const palm = (leftPalm + rightPalm) / 2;
+
+      const distance = Math.sqrt(Math.pow(lw.x - rw.x, 2) + Math.pow(lw.y - rw.y, 2)) / palm;
+
+      // Roll: angle of the wrist-to-wrist line on screen (mirrored x, y up)
+      const roll = Math.atan2(-(rw.y - lw.y), (1 - rw.x) - (1 - lw.x));
+      // Yaw: the hand closer to the camera looks bigger
+      const yaw = Math.log(rightPalm / leftPalm);
+      // Pitch: knuckles in front of / behind the wrists
+      const pitch = -((left[MIDDLE_MCP].z + right[MIDDLE_MCP].z) / 2) * PITCH_GAIN;
+
+      const together = distance < togetherMax;
+      if (!holding && together) {
+        holding = true;
+        base = { distance, roll, pitch, yaw };
+      }
+
+      return {
+        holding,
+        together,
+        distance,
+        scale: holding ? THREE.MathUtils.clamp(distance / base.distance, MIN_SCALE, MAX_SCALE) : 1,
+        roll: holding ? wrapAngle(roll - base.roll) : 0,
+        pitch: holding ? pitch - base.pitch : 0,
+        yaw: holding ? yaw - base.yaw : 0,
+        left: { x: lw.x, y: lw.y },
+        right: { x: rw.x, y: rw.y },
+      };
+    },
+    // Still holding while one hand is briefly lost (within releaseMs)
+    isHolding() {
+      return holding;
+    },
+    reset() {
+      holding = false;
+      lastSeen = -Infinity;
+    },
+  };
+};
+
+export type TwoHandTracker = ReturnType<typeof createTwoHandTracker>;
+
+// Scene-side copy of TwoHandParams, in world units (see App.handleGestureFrame)
+export interface TwoHandSceneState {
+  active: boolean;
+  holding: boolean;
+  scale: number;
+  rotation: THREE.Euler;
+  left: THREE.Vector3;
+  right: THREE.Vector3;
+}
+
+export const createTwoHandSceneState = (): TwoHandSceneState => ({
+  active: false,
+  holding: false,
+  scale: 1,
+  rotation: new THREE.Euler(),
+  left: new THREE.Vector3(),
+  right: new THREE.Vector3(),
+});
+
+const targetQuat = new THREE.Quaternion();
+const identityEuler = new THREE.Euler();
+
+// Scale & twist a group while the heart is held with both hands, ease back otherwise
+export const applyTwoHandTransform = (object: THREE.Object3D, state: TwoHandSceneState, alpha = 0.15) => {
+  const held = state.active && state.holding;
+
+  const nextScale = THREE.MathUtils.lerp(object.scale.x, held ? state.scale : 1, alpha);
+  object.scale.setScalar(nextScale);
+
+  targetQuat.setFromEuler(held ? state.rotation : identityEuler);
+  object.quaternion.slerp(targetQuat, alpha);
+};
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { addAfterEffect } from '@react-three/fiber';
+import { ArrayBufferTarget, Muxer } from 'webm-muxer';
+
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const LIVE_BITRATE = 8_000_000;
+const OFFLINE_BITRATE = 12_000_000;
+
+// Webcam inset: share of the output width, distance from the edges in pixels
+const PIP_WIDTH = 0.22;
+const PIP_MARGIN = 16;
+
+// Frames the offline encoder may hold before we wait for it to catch up
+const MAX_ENCODE_QUEUE = 4;
+
+export const isVideoRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+export const isOfflineRenderSupported = () =>
+  typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+
+const getRecordingMimeType = () => MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+// Mirrored like the preview in VisionController
+const drawWebcamInset = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement) => {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) return;
+  const width = ctx.canvas.width * PIP_WIDTH;
+  const height = width * video.videoHeight / video.videoWidth;
+  const x = ctx.canvas.width - width - PIP_MARGIN;
+  const y = PIP_MARGIN;
+
+  ctx.save();
+  ctx.translate(x + width, y);
+  ctx.scale(-1, 1);
+  ctx.drawImage(video, 0, 0, width, height);
+  ctx.restore();
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x, y, width, height);
+};
+
+export interface CanvasRecorderOptions {
+  fps?: number;
+  // Webcam picture-in-picture; read every frame since the camera can come and go
+  getPipVideo?: () => HTMLVideoElement | null;
+}
+
+// Records the R3F canvas in real time with MediaRecorder. With a webcam inset the scene is
+// copied onto a 2D canvas right after each render (the WebGL buffer is cleared once presented)
+export const createCanvasRecorder = (canvas: HTMLCanvasElement, { fps = 30, getPipVideo }: CanvasRecorderOptions = {}) => {
+  let source = canvas;
+  let unsubscribe: (() => void) | null = null;
+
+  if (getPipVideo) {
+    const composite = document.createElement('canvas');
+    composite.width = canvas.width;
+    composite.height = canvas.height;
+    const ctx = composite.getContext('2d')!;
+
+    unsubscribe = addAfterEffect(() => {
+      ctx.drawImage(canvas, 0, 0, composite.width, composite.height);
+      const video = getPipVideo();
+      if (video) drawWebcamInset(ctx, video);
+    });
+    source = composite;
+  }
+
+  const stream = source.captureStream(fps);
+  const mimeType = getRecordingMimeType();
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: LIVE_BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start(1000);
+
+  return {
+    stop(): Promise<Blob> {
+      return new Promise(resolve => {
+        recorder.onstop = () => {
+          unsubscribe?.();
+          stream.getTracks().forEach(track => track.stop());
+          resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+        };
+        recorder.stop();
+      });
+    },
+  };
+};
+
+export type CanvasRecorder = ReturnType<typeof createCanvasRecorder>;
+
+// Frame-accurate WebM encoding (WebCodecs VP9 + webm-muxer) for offline renders.
+// Timestamps come from the frame index, so the video plays at `fps` however long each frame took,
+// unless a frame brings its own timing (GIF frames, see utils/videoProcessing.ts)
+export const createWebmEncoder = (width: number, height: number, fps: number, bitrate = OFFLINE_BITRATE) => {
+  if (!isOfflineRenderSupported()) throw new Error("This browser cannot encode video (WebCodecs unavailable)");
+
+  const target = new ArrayBufferTarget();
+  const muxer = new Muxer({ target, video: { codec: 'V_VP9', width, height, frameRate: fps } });
+  let encodeError: Error | null = null;
+
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (e) => { encodeError = e; },
+  });
+  encoder.configure({ codec: 'vp09.00.10.08', width, height, bitrate, framerate: fps });
+
+  const frameDuration = 1e6 / fps; // Microseconds
+
+  return {
+    // Call right after rendering `index`, while the canvas still holds that frame. Times in microseconds
+    async addFrame(canvas: HTMLCanvasElement, index: number, timestamp = index * frameDuration, duration = frameDuration) {
+      if (encodeError) throw encodeError;
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(timestamp), duration: Math.round(duration) });
+      encoder.encode(frame, { keyFrame: index % (fps * 2) === 0 });
+      frame.close();
+
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(resolve => encoder.addEventListener('dequeue', resolve, { once: true }));
+      }
+    },
+    async finish(): Promise<Blob> {
+      await encoder.flush();
+      if (encodeError) throw encodeError;
+      muxer.finalize();
+      return new Blob([target.buffer], { type: 'video/webm' });
+    },
+    close() {
+      if (encoder.state !== 'closed') encoder.close();
+    },
+  };
+};
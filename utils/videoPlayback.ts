@@ -0,0 +1,56 @@
+import * as THREE from 'three';
+
+export const CLOUD_VIDEO_FPS = 8;     // Frame rate of videos floating in the cloud; the focused one plays at full rate
+export const MAX_PLAYING_VIDEOS = 4;  // Videos decoding at once, the focused one included
+const REPICK_INTERVAL_MS = 1000;      // Between choosing which videos play
+const PLAYING_BONUS = 0.8;            // Playing videos keep their slot unless another is clearly more important
+
+// VideoTexture that uploads at most `maxFps` new frames per second
+export class ThrottledVideoTexture extends THREE.VideoTexture {
+  maxFps = Infinity;
+  private uploadedAt = -Infinity;
+
+  set needsUpdate(value: boolean) {
+    if (!value) return;
+    const now = performance.now();
+    if (now - this.uploadedAt < 1000 / this.maxFps) return;
+    this.uploadedAt = now;
+    super.needsUpdate = true;
+  }
+}
+
+// Caps how many gallery videos decode at once. Every frame, each video that wants to play asks with a
+// priority (lower = more important, e.g. its distance to the camera); the most important ones get the
+// slots. The others show their poster until they get one. Timed with performance.now(), not the R3F
+// clock, which restarts from 0 after an offline render
+export const createVideoPlaybackLimiter = (maxPlaying = MAX_PLAYING_VIDEOS) => {
+  const priorities = new Map<string, number>();
+  let playing = new Set<string>();
+  let pickedAt = -Infinity;
+
+  return {
+    // Returns whether the video may play
+    request(id: string, priority: number) {
+      priorities.set(id, priority);
+      const now = performance.now();
+      if (now - pickedAt > REPICK_INTERVAL_MS) {
+        pickedAt = now;
+        playing = new Set(
+          [...priorities]
+            .map(([videoId, p]) => ({ videoId, score: playing.has(videoId) ? p * PLAYING_BONUS : p }))
+            .sort((a, b) => a.score - b.score)
+            .slice(0, maxPlaying)
+            .map(entry => entry.videoId)
+        );
+      }
+      return playing.has(id);
+    },
+    // Hidden, behind a focused photo or removed: frees the slot
+    release(id: string) {
+      priorities.delete(id);
+      playing.delete(id);
+    },
+  };
+};
+
+export type VideoPlaybackLimiter = ReturnType<typeof createVideoPlaybackLimiter>;
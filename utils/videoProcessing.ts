@@ -0,0 +1,179 @@
+import { StoredPhoto } from '../types';
+import { readExifDate, readQuickTimeDate } from './exif';
+import { TEXTURE_SIZE, THUMBNAIL_SIZE, createId, processImageFile, resizeImage } from './imageProcessing';
+import { createWebmEncoder, isOfflineRenderSupported } from './videoExport';
+
+// Some systems leave the type of .mov / .m4v files empty
+const VIDEO_EXTENSION = /\.(mp4|m4v|mov|webm|ogv)$/i;
+
+// Some browsers never load media without a user gesture (iOS Safari ignores preload): give up then
+const VIDEO_TIMEOUT_MS = 15_000;
+
+const GIF_FPS = 10;                // Nominal rate for the encoder; frames keep their own durations
+const GIF_BITRATE = 2_000_000;
+const GIF_DEFAULT_FRAME = 100_000; // Microseconds. Browsers play frames of 10 ms or less at this speed
+
+export const isVideoFile = (file: Blob, name: string) => file.type.startsWith('video/') || VIDEO_EXTENSION.test(name);
+
+const loadVideo = (file: Blob) => new Promise<HTMLVideoElement>((resolve, reject) => {
+  const video = document.createElement('video');
+  const url = URL.createObjectURL(file);
+  const fail = (message: string) => {
+    clearTimeout(timer);
+    video.onloadeddata = null;
+    video.onerror = null;
+    URL.revokeObjectURL(url);
+    video.removeAttribute('src');
+    video.load();
+    reject(new Error(message));
+  };
+  const timer = setTimeout(() => fail("Timed out loading video"), VIDEO_TIMEOUT_MS);
+
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.onloadeddata = () => {
+    clearTimeout(timer);
+    resolve(video);
+  };
+  video.onerror = () => fail("Could not decode video");
+  video.src = url;
+});
+
+// Poster a second in (or halfway through shorter clips), past fade-ins and black first frames
+const seekToPoster = (video: HTMLVideoElement) => new Promise<void>((resolve, reject) => {
+  const time = Number.isFinite(video.duration) ? Math.min(1, video.duration / 2) : 0;
+  if (time === 0) {
+    resolve();
+    return;
+  }
+  const timer = setTimeout(() => reject(new Error("Timed out seeking video")), VIDEO_TIMEOUT_MS);
+  video.onseeked = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  video.onerror = () => {
+    clearTimeout(timer);
+    reject(new Error("Could not decode video"));
+  };
+  video.currentTime = time;
+});
+
+// A short clip, stored like a photo: the poster frame fills in for the texture & thumbnail variants.
+// `still` is the picture of a Live Photo, which makes a better poster. The capture date comes from the
+// still's EXIF where we can read it (JPEG), else from the clip's movie header (MOV / MP4)
+export const processVideoFile = async (file: Blob, name: string, createdAt = Date.now(), still?: Blob): Promise<StoredPhoto> => {
+  const video = await loadVideo(file);
+  try {
+    await seekToPoster(video);
+    // The still may be HEIC, which most browsers can't decode
+    const poster = still ? await createImageBitmap(still).catch(() => createImageBitmap(video)) : await createImageBitmap(video);
+    try {
+      const [texture, thumbnail, stillDate, clipDate] = await Promise.all([
+        resizeImage(poster, TEXTURE_SIZE),
+        resizeImage(poster, THUMBNAIL_SIZE, 0.75),
+        still ? readExifDate(still) : null,
+        readQuickTimeDate(file),
+      ]);
+      const takenAt = stillDate ?? clipDate;
+
+      return {
+        id: createId(),
+        kind: 'video',
+        createdAt,
+        name,
+        width: video.videoWidth,
+        height: video.videoHeight,
+        original: file,
+        texture,
+        thumbnail,
+        caption: '',
+        favourite: false,
+        order: createdAt,
+        takenAt,
+        album: '',
+      };
+    } finally {
+      poster.close();
+    }
+  } finally {
+    video.onseeked = null;
+    video.onerror = null;
+    URL.revokeObjectURL(video.src);
+    video.removeAttribute('src');
+    video.load();
+  }
+};
+
+// Animated GIF -> WebM, so it plays through the same video path. null for single-frame GIFs
+// and where the browser can't decode frames or encode video (the GIF is then kept as a still)
+const convertGifToWebm = async (file: Blob): Promise<Blob | null> => {
+  if (typeof ImageDecoder === 'undefined' || !isOfflineRenderSupported()) return null;
+
+  const decoder = new ImageDecoder({ data: await file.arrayBuffer(), type: 'image/gif' });
+  let encoder: ReturnType<typeof createWebmEncoder> | null = null;
+  try {
+    // Tracks are set up separately from the data: frameCount is only final once both are done
+    await decoder.tracks.ready;
+    await decoder.completed;
+    const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 1;
+    if (frameCount < 2) return null;
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+    let timestamp = 0;
+
+    for (let i = 0; i < frameCount; i++) {
+      const { image } = await decoder.decode({ frameIndex: i });
+      if (!encoder) {
+        // The encoder wants even dimensions; transparency becomes black
+        canvas.width = Math.ceil(image.displayWidth / 2) * 2;
+        canvas.height = Math.ceil(image.displayHeight / 2) * 2;
+        encoder = createWebmEncoder(canvas.width, canvas.height, GIF_FPS, GIF_BITRATE);
+      }
+      const duration = image.duration > 10_000 ? image.duration : GIF_DEFAULT_FRAME;
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0);
+      image.close();
+
+      await encoder.addFrame(canvas, i, timestamp, duration);
+      timestamp += duration;
+    }
+    return await encoder.finish();
+  } finally {
+    encoder?.close();
+    decoder.close();
+  }
+};
+
+// Uploads, bundles and remote photos: pictures, clips, and animated GIFs (converted to clips)
+export const processMediaFile = async (file: Blob, name: string, createdAt = Date.now(), still?: Blob): Promise<StoredPhoto> => {
+  if (isVideoFile(file, name)) return processVideoFile(file, name, createdAt, still);
+
+  if (file.type === 'image/gif') {
+    const clip = await convertGifToWebm(file).catch(e => {
+      console.warn("Could not convert GIF to video, keeping its first frame", e);
+      return null;
+    });
+    if (clip) return processVideoFile(clip, name.replace(/\.gif$/i, '') + '.webm', createdAt);
+  }
+  return processImageFile(file, name, createdAt);
+};
+
+const baseName = (file: File) => (file.webkitRelativePath || file.name).replace(/\.[^./]+$/, '').toLowerCase();
+
+// Live Photos are exported as a picture and a short .mov of the same name: keep the clip,
+// with the picture as its `still`
+export const pairLivePhotos = (files: File[]): { file: File; still?: File }[] => {
+  const clips = new Map(files.filter(file => isVideoFile(file, file.name)).map(file => [baseName(file), file]));
+  const stills = new Map<File, File>();
+
+  const items = files.filter(file => {
+    const clip = isVideoFile(file, file.name) ? undefined : clips.get(baseName(file));
+    if (clip) stills.set(clip, file);
+    return !clip;
+  });
+  return items.map(file => ({ file, still: stills.get(file) }));
+};
@@ -0,0 +1,88 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+
+export type VisionDelegate = 'GPU' | 'CPU';
+
+export interface VisionAssetSource {
+  label: string;
+  wasmPath: string;
+  modelPath: string;
+}
+
+export interface HandLandmarkerResult {
+  landmarker: HandLandmarker;
+  source: VisionAssetSource;
+  delegate: VisionDelegate;
+}
+
+const INIT_TIMEOUT_MS = 20000;
+
+const REMOTE_MODEL_URL = "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task";
+
+// Local copies first (served from public/, see scripts/setup-vision-assets.mjs),
+// then the CDN pinned to the same package version we bundle against
+export const getVisionAssetSources = (): VisionAssetSource[] => {
+  const env = import.meta.env;
+  const sources: VisionAssetSource[] = [{
+    label: 'local',
+    wasmPath: env.VITE_MEDIAPIPE_WASM_PATH || './mediapipe/wasm',
+    modelPath: env.VITE_HAND_MODEL_PATH || './mediapipe/hand_landmarker.task',
+  }];
+
+  if (env.VITE_MEDIAPIPE_ALLOW_CDN !== 'false') {
+    sources.push({
+      label: 'cdn',
+      wasmPath: `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${__MEDIAPIPE_VERSION__}/wasm`,
+      modelPath: REMOTE_MODEL_URL,
+    });
+  }
+  return sources;
+};
+
+// `dispose` cleans up a value that only arrives after the timeout, when nobody is waiting for it
+const withTimeout = <T>(promise: Promise<T>, ms: number, label: string, dispose?: (value: T) => void) => {
+  return new Promise<T>((resolve, reject) => {
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      reject(new Error(`${label} timed out after ${ms / 1000}s`));
+    }, ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        if (timedOut) dispose?.(value);
+        else resolve(value);
+      },
+      (err) => { clearTimeout(timer); reject(err); }
+    );
+  });
+};
+
+// Try every asset source, GPU first then CPU, and return the first landmarker that loads.
+// Throws a single error describing every failed attempt.
+export const createHandLandmarker = async (numHands = 1): Promise<HandLandmarkerResult> => {
+  const failures: string[] = [];
+
+  for (const source of getVisionAssetSources()) {
+    for (const delegate of ['GPU', 'CPU'] as VisionDelegate[]) {
+      try {
+        const vision = await FilesetResolver.forVisionTasks(source.wasmPath);
+        const landmarker = await withTimeout(HandLandmarker.createFromOptions(vision, {
+          baseOptions: {
+            modelAssetPath: source.modelPath,
+            delegate
+          },
+          runningMode: "VIDEO",
+          numHands
+        }), INIT_TIMEOUT_MS, `${source.label}/${delegate}`, late => late.close());
+
+        return { landmarker, source, delegate };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`MediaPipe init failed (${source.label}, ${delegate}):`, err);
+        failures.push(`${source.label}/${delegate}: ${message}`);
+      }
+    }
+  }
+
+  throw new Error(`Could not load the hand tracking model. ${failures.join('; ')}`);
+};
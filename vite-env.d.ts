@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Where the MediaPipe WASM files and hand model are served from (see scripts/setup-vision-assets.mjs)
+  readonly VITE_MEDIAPIPE_WASM_PATH?: string;
+  readonly VITE_HAND_MODEL_PATH?: string;
+  // Set to "false" to never fall back to the public CDN (fully offline installs)
+  readonly VITE_MEDIAPIPE_ALLOW_CDN?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+// Installed @mediapipe/tasks-vision version, injected by vite.config.ts
+declare const __MEDIAPIPE_VERSION__: string;
@@ -1,5 +1,12 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+
+// The CDN fallback for the MediaPipe WASM must match the JS we actually bundle
+const mediapipeVersion = JSON.parse(
+  readFileSync(new URL('./node_modules/@mediapipe/tasks-vision/package.json', import.meta.url), 'utf-8')
+).version
 
 // https://vitejs.dev/config/
 export default defineConfig({
@@ -8,4 +15,16 @@ export default defineConfig({
   // It ensures assets are linked relatively (e.g., "./assets/...") 
   // instead of absolutely (e.g., "/assets/..."), preventing 404 errors in subdirectories.
   base: './', 
+  define: {
+    __MEDIAPIPE_VERSION__: JSON.stringify(mediapipeVersion),
+  },
+  build: {
+    rollupOptions: {
+      // The scene, and the companion page for the remote control API
+      input: {
+        main: fileURLToPath(new URL('./index.html', import.meta.url)),
+        control: fileURLToPath(new URL('./control.html', import.meta.url)),
+      },
+    },
+  },
 })
\ No newline at end of file